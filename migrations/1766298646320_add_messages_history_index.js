@@ -0,0 +1,12 @@
+/* Migration: composite index for keyset pagination of chat history */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+    // history is paged by (created_at, id) inside a single chat
+    pgm.createIndex('messages', ['chat_id', 'created_at', 'id'], {name: 'messages_chat_id_created_at_id_index'});
+};
+
+exports.down = (pgm) => {
+    pgm.dropIndex('messages', ['chat_id', 'created_at', 'id'], {name: 'messages_chat_id_created_at_id_index', ifExists: true});
+};
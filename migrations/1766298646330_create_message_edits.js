@@ -0,0 +1,34 @@
+/* Migration: message edit history and per-user hidden messages ("delete for me") */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+    pgm.addColumn('messages', {
+        edited_at: {type: 'timestamp with time zone'}
+    });
+
+    // previous versions of a message, one row per edit
+    pgm.createTable('message_edits', {
+        id: {type: 'uuid', notNull: true, primaryKey: true, default: pgm.func('gen_random_uuid()')},
+        message_id: {type: 'uuid', notNull: true, references: 'messages(id)', onDelete: 'CASCADE'},
+        previous_content: {type: 'text'},
+        edited_by: {type: 'uuid', references: 'users(id)', onDelete: 'SET NULL'},
+        edited_at: {type: 'timestamp with time zone', notNull: true, default: pgm.func('current_timestamp')}
+    });
+    pgm.createIndex('message_edits', ['message_id', 'edited_at']);
+
+    // messages a user deleted only for themselves
+    pgm.createTable('message_hidden', {
+        id: {type: 'uuid', notNull: true, primaryKey: true, default: pgm.func('gen_random_uuid()')},
+        message_id: {type: 'uuid', notNull: true, references: 'messages(id)', onDelete: 'CASCADE'},
+        user_id: {type: 'uuid', notNull: true, references: 'users(id)', onDelete: 'CASCADE'},
+        hidden_at: {type: 'timestamp with time zone', notNull: true, default: pgm.func('current_timestamp')}
+    });
+    pgm.addConstraint('message_hidden', 'message_hidden_message_id_user_id_unique', {unique: ['message_id', 'user_id']});
+};
+
+exports.down = (pgm) => {
+    pgm.dropTable('message_hidden', {ifExists: true, cascade: true});
+    pgm.dropTable('message_edits', {ifExists: true, cascade: true});
+    pgm.dropColumn('messages', 'edited_at', {ifExists: true});
+};
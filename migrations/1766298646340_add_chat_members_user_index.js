@@ -0,0 +1,11 @@
+/* Migration: index chat_members by user for the chat list */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+    pgm.createIndex('chat_members', ['user_id']);
+};
+
+exports.down = (pgm) => {
+    pgm.dropIndex('chat_members', ['user_id'], {ifExists: true});
+};
@@ -0,0 +1,20 @@
+/* Migration: device sessions on refresh tokens (a session survives refresh token rotation) */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+    pgm.addColumns('refresh_tokens', {
+        session_id: {type: 'uuid', notNull: true, default: pgm.func('gen_random_uuid()')},
+        user_agent: {type: 'text'},
+        ip: {type: 'varchar(64)'},
+        device_name: {type: 'varchar(100)'},
+        last_used_at: {type: 'timestamp with time zone', notNull: true, default: pgm.func('current_timestamp')},
+    });
+
+    pgm.createIndex('refresh_tokens', ['session_id']);
+};
+
+exports.down = (pgm) => {
+    pgm.dropIndex('refresh_tokens', ['session_id'], {ifExists: true});
+    pgm.dropColumns('refresh_tokens', ['session_id', 'user_agent', 'ip', 'device_name', 'last_used_at']);
+};
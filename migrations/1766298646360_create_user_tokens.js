@@ -0,0 +1,29 @@
+/* Migration: email verification state and single-use account tokens (verification, password reset) */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+    pgm.addColumns('users', {
+        email_verified_at: {type: 'timestamp with time zone'},
+    });
+
+    // accounts created before verification existed are treated as verified
+    pgm.sql('UPDATE users SET email_verified_at = created_at');
+
+    pgm.createTable('user_tokens', {
+        id: {type: 'uuid', notNull: true, primaryKey: true, default: pgm.func('gen_random_uuid()')},
+        user_id: {type: 'uuid', notNull: true, references: 'users(id)', onDelete: 'CASCADE'},
+        purpose: {type: 'varchar(32)', notNull: true},
+        token_hash: {type: 'varchar(128)', notNull: true, unique: true},
+        expires_at: {type: 'timestamp with time zone', notNull: true},
+        used_at: {type: 'timestamp with time zone'},
+        created_at: {type: 'timestamp with time zone', notNull: true, default: pgm.func('current_timestamp')}
+    });
+
+    pgm.createIndex('user_tokens', ['user_id', 'purpose']);
+};
+
+exports.down = (pgm) => {
+    pgm.dropTable('user_tokens', {ifExists: true, cascade: true});
+    pgm.dropColumns('users', ['email_verified_at']);
+};
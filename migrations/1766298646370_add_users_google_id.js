@@ -0,0 +1,16 @@
+/* Migration: Google sign-in (social-only accounts have no password) */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+    pgm.alterColumn('users', 'password', {notNull: false});
+    pgm.addColumns('users', {
+        google_id: {type: 'varchar(64)', unique: true},
+    });
+};
+
+exports.down = (pgm) => {
+    pgm.dropColumns('users', ['google_id']);
+    // social-only accounts must be removed (or given a password) before rolling back
+    pgm.alterColumn('users', 'password', {notNull: true});
+};
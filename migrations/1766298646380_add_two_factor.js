@@ -0,0 +1,26 @@
+/* Migration: TOTP two-factor authentication and one-time recovery codes */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+    pgm.addColumns('users', {
+        // AES-GCM encrypted TOTP secret, set once enrollment is confirmed
+        totp_secret: {type: 'text'},
+        totp_enabled_at: {type: 'timestamp with time zone'},
+    });
+
+    pgm.createTable('user_recovery_codes', {
+        id: {type: 'uuid', notNull: true, primaryKey: true, default: pgm.func('gen_random_uuid()')},
+        user_id: {type: 'uuid', notNull: true, references: 'users(id)', onDelete: 'CASCADE'},
+        code_hash: {type: 'varchar(128)', notNull: true},
+        used_at: {type: 'timestamp with time zone'},
+        created_at: {type: 'timestamp with time zone', notNull: true, default: pgm.func('current_timestamp')}
+    });
+
+    pgm.createIndex('user_recovery_codes', ['user_id', 'code_hash'], {unique: true});
+};
+
+exports.down = (pgm) => {
+    pgm.dropTable('user_recovery_codes', {ifExists: true, cascade: true});
+    pgm.dropColumns('users', ['totp_secret', 'totp_enabled_at']);
+};
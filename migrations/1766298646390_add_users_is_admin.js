@@ -0,0 +1,13 @@
+/* Migration: operator accounts allowed to use the /api/admin endpoints */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+    pgm.addColumns('users', {
+        is_admin: {type: 'boolean', notNull: true, default: false},
+    });
+};
+
+exports.down = (pgm) => {
+    pgm.dropColumns('users', ['is_admin']);
+};
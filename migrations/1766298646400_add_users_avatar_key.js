@@ -0,0 +1,14 @@
+/* Migration: object key of avatars uploaded to MinIO, so a replaced avatar can be deleted */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+    pgm.addColumns('users', {
+        // null when the avatar is an external url (or unset)
+        avatar_key: {type: 'text'},
+    });
+};
+
+exports.down = (pgm) => {
+    pgm.dropColumns('users', ['avatar_key']);
+};
@@ -0,0 +1,33 @@
+/* Migration: unique, changeable user handles, a discoverability setting and indexes for user search */
+
+exports.shorthands = undefined;
+
+exports.up = (pgm) => {
+    pgm.sql('CREATE EXTENSION IF NOT EXISTS pg_trgm');
+
+    pgm.addColumns('users', {
+        // lowercase; existing and new users without a chosen handle get a random one (evaluated per row)
+        handle: {
+            type: 'varchar(30)',
+            notNull: true,
+            default: pgm.func(`'user_' || substr(md5(random()::text || clock_timestamp()::text), 1, 10)`)
+        },
+        // false hides the user from search; a known handle still reaches them
+        discoverable: {type: 'boolean', notNull: true, default: true},
+    });
+
+    pgm.addConstraint('users', 'users_handle_format', {check: `handle ~ '^[a-z0-9_]{3,30}$'`});
+    pgm.createIndex('users', 'handle', {unique: true, name: 'users_handle_unique'});
+    // prefix search (LIKE 'ab%') and fuzzy search (pg_trgm similarity) on handle and name
+    pgm.sql('CREATE INDEX users_handle_prefix_idx ON users (handle text_pattern_ops)');
+    pgm.sql('CREATE INDEX users_handle_trgm_idx ON users USING gin (handle gin_trgm_ops)');
+    pgm.sql('CREATE INDEX users_name_trgm_idx ON users USING gin (lower(name) gin_trgm_ops)');
+};
+
+exports.down = (pgm) => {
+    pgm.sql('DROP INDEX IF EXISTS users_name_trgm_idx');
+    pgm.sql('DROP INDEX IF EXISTS users_handle_trgm_idx');
+    pgm.sql('DROP INDEX IF EXISTS users_handle_prefix_idx');
+    pgm.dropColumns('users', ['handle', 'discoverable']);
+    // pg_trgm is left installed, other objects may depend on it
+};
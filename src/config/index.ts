@@ -5,7 +5,10 @@ dotenv.config();
 class Config {
     public static readonly PORT = process.env.PORT || 3003;
     public static readonly MODE = process.env.NODE_ENV === 'development' ? 'development' : 'production';
-    public static readonly JWT_SECRET = process.env.SECRET_KEY;
+    // Asymmetric JWT keys (see modules/auth/keyStore.ts)
+    public static readonly JWT_KEYS_DIR = process.env.JWT_KEYS_DIR;
+    public static readonly JWT_ACTIVE_KID = process.env.JWT_ACTIVE_KID;
+    public static readonly JWT_ISSUER = process.env.JWT_ISSUER ?? 'chat-api';
     public static readonly GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID;
     public static readonly GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET;
     public static readonly REDIS_URL = process.env.REDIS_URL;
@@ -22,6 +25,64 @@ class Config {
     public static readonly PG_CONNECTION_TIMEOUT_MS = process.env.PG_CONNECTION_TIMEOUT_MS ? Number(process.env.PG_CONNECTION_TIMEOUT_MS) : 2000;
     public static readonly PG_SSL = process.env.PG_SSL === 'true';
 
+    // Messaging settings
+    public static readonly MESSAGE_EDIT_WINDOW_MINUTES = process.env.MESSAGE_EDIT_WINDOW_MINUTES ? Number(process.env.MESSAGE_EDIT_WINDOW_MINUTES) : 15;
+
+    // Presence settings
+    public static readonly PRESENCE_AWAY_AFTER_SECONDS = process.env.PRESENCE_AWAY_AFTER_SECONDS ? Number(process.env.PRESENCE_AWAY_AFTER_SECONDS) : 300;
+    public static readonly PRESENCE_SWEEP_INTERVAL_SECONDS = process.env.PRESENCE_SWEEP_INTERVAL_SECONDS ? Number(process.env.PRESENCE_SWEEP_INTERVAL_SECONDS) : 30;
+
+    // Mail settings (no SMTP_HOST: messages are logged instead of sent)
+    public static readonly SMTP_HOST = process.env.SMTP_HOST;
+    public static readonly SMTP_PORT = process.env.SMTP_PORT ? Number(process.env.SMTP_PORT) : 587;
+    public static readonly SMTP_SECURE = process.env.SMTP_SECURE === 'true';
+    public static readonly SMTP_USER = process.env.SMTP_USER;
+    public static readonly SMTP_PASS = process.env.SMTP_PASS;
+    public static readonly MAIL_FROM = process.env.MAIL_FROM ?? 'Chat App <no-reply@localhost>';
+    // Frontend base URL used in emailed links
+    public static readonly APP_URL = process.env.APP_URL ?? process.env.CLIENT_URL ?? 'http://localhost:3000';
+
+    // Account token settings
+    public static readonly EMAIL_VERIFICATION_TTL_HOURS = process.env.EMAIL_VERIFICATION_TTL_HOURS ? Number(process.env.EMAIL_VERIFICATION_TTL_HOURS) : 24;
+    public static readonly PASSWORD_RESET_TTL_MINUTES = process.env.PASSWORD_RESET_TTL_MINUTES ? Number(process.env.PASSWORD_RESET_TTL_MINUTES) : 30;
+    // Reject logins of unverified accounts
+    public static readonly REQUIRE_EMAIL_VERIFICATION = process.env.REQUIRE_EMAIL_VERIFICATION === 'true';
+
+    // Two-factor authentication settings
+    public static readonly TOTP_ISSUER = process.env.TOTP_ISSUER ?? 'Chat App';
+    // key for encrypting TOTP secrets at rest (falls back to SECRET_KEY)
+    public static readonly TOTP_ENCRYPTION_KEY = process.env.TOTP_ENCRYPTION_KEY ?? process.env.SECRET_KEY;
+    public static readonly TWO_FACTOR_CHALLENGE_TTL_SECONDS = process.env.TWO_FACTOR_CHALLENGE_TTL_SECONDS ? Number(process.env.TWO_FACTOR_CHALLENGE_TTL_SECONDS) : 300;
+
+    // Login rate limits (hits per window, per client ip and per email)
+    public static readonly LOGIN_RATE_LIMIT_PER_IP = process.env.LOGIN_RATE_LIMIT_PER_IP ? Number(process.env.LOGIN_RATE_LIMIT_PER_IP) : 20;
+    public static readonly LOGIN_RATE_LIMIT_PER_EMAIL = process.env.LOGIN_RATE_LIMIT_PER_EMAIL ? Number(process.env.LOGIN_RATE_LIMIT_PER_EMAIL) : 5;
+    public static readonly LOGIN_RATE_LIMIT_WINDOW_SECONDS = process.env.LOGIN_RATE_LIMIT_WINDOW_SECONDS ? Number(process.env.LOGIN_RATE_LIMIT_WINDOW_SECONDS) : 15 * 60;
+    // Failed-login lockout: lock after N failures inside the window, doubling base up to max per repeat
+    public static readonly LOGIN_LOCKOUT_ACCOUNT_THRESHOLD = process.env.LOGIN_LOCKOUT_ACCOUNT_THRESHOLD ? Number(process.env.LOGIN_LOCKOUT_ACCOUNT_THRESHOLD) : 5;
+    public static readonly LOGIN_LOCKOUT_IP_THRESHOLD = process.env.LOGIN_LOCKOUT_IP_THRESHOLD ? Number(process.env.LOGIN_LOCKOUT_IP_THRESHOLD) : 20;
+    public static readonly LOGIN_FAILURE_WINDOW_SECONDS = process.env.LOGIN_FAILURE_WINDOW_SECONDS ? Number(process.env.LOGIN_FAILURE_WINDOW_SECONDS) : 15 * 60;
+    public static readonly LOGIN_LOCKOUT_BASE_SECONDS = process.env.LOGIN_LOCKOUT_BASE_SECONDS ? Number(process.env.LOGIN_LOCKOUT_BASE_SECONDS) : 60;
+    public static readonly LOGIN_LOCKOUT_MAX_SECONDS = process.env.LOGIN_LOCKOUT_MAX_SECONDS ? Number(process.env.LOGIN_LOCKOUT_MAX_SECONDS) : 60 * 60;
+    // lock levels are forgotten after this long without a new lock
+    public static readonly LOGIN_LOCKOUT_LEVEL_TTL_SECONDS = process.env.LOGIN_LOCKOUT_LEVEL_TTL_SECONDS ? Number(process.env.LOGIN_LOCKOUT_LEVEL_TTL_SECONDS) : 24 * 60 * 60;
+
+    // Missed-event replay settings
+    public static readonly EVENT_LOG_MAX_PER_STREAM = process.env.EVENT_LOG_MAX_PER_STREAM ? Number(process.env.EVENT_LOG_MAX_PER_STREAM) : 500;
+    public static readonly EVENT_LOG_TTL_SECONDS = process.env.EVENT_LOG_TTL_SECONDS ? Number(process.env.EVENT_LOG_TTL_SECONDS) : 3 * 24 * 60 * 60;
+    public static readonly EVENT_REPLAY_MAX_EVENTS = process.env.EVENT_REPLAY_MAX_EVENTS ? Number(process.env.EVENT_REPLAY_MAX_EVENTS) : 1000;
+
+    // Attachment settings (MinIO)
+    public static readonly MINIO_CHAT_BUCKET = process.env.MINIO_CHAT_BUCKET ?? 'chat-attachments';
+    public static readonly ATTACHMENT_MAX_BYTES = process.env.ATTACHMENT_MAX_BYTES ? Number(process.env.ATTACHMENT_MAX_BYTES) : 25 * 1024 * 1024;
+    public static readonly ATTACHMENT_ALLOWED_TYPES = (process.env.ATTACHMENT_ALLOWED_TYPES ?? 'image/jpeg,image/png,image/gif,image/webp,application/pdf,application/zip,text/plain,video/mp4,audio/mpeg')
+        .split(',').map((t) => t.trim()).filter(Boolean);
+    public static readonly ATTACHMENT_UPLOAD_TTL_SECONDS = process.env.ATTACHMENT_UPLOAD_TTL_SECONDS ? Number(process.env.ATTACHMENT_UPLOAD_TTL_SECONDS) : 600;
+    public static readonly ATTACHMENT_DOWNLOAD_TTL_SECONDS = process.env.ATTACHMENT_DOWNLOAD_TTL_SECONDS ? Number(process.env.ATTACHMENT_DOWNLOAD_TTL_SECONDS) : 300;
+    // Avatars are served from a public-read bucket
+    public static readonly MINIO_AVATAR_BUCKET = process.env.MINIO_AVATAR_BUCKET ?? 'avatars';
+    public static readonly AVATAR_MAX_BYTES = process.env.AVATAR_MAX_BYTES ? Number(process.env.AVATAR_MAX_BYTES) : 2 * 1024 * 1024;
+
     // RabbitMQ settings
     public static readonly RABBITMQ_URL = process.env.RABBITMQ_URL ?? 'amqp://localhost';
 }
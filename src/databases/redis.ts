@@ -11,6 +11,8 @@ export type RedisConfig = {
 };
 
 let redisClient: RedisClientType | null = null;
+// extra connections (e.g. pub/sub for the Socket.IO adapter), closed together with the main client
+let duplicateClients: RedisClientType[] = [];
 
 function buildRedisConfig(cfg?: Partial<RedisConfig>) {
     const url = cfg?.url ?? Config.REDIS_URL;
@@ -111,6 +113,20 @@ export function getRedisClient(): RedisClientType {
     return redisClient;
 }
 
+/**
+ * Create a connected duplicate of the main client.
+ * Needed for pub/sub, where a subscribed connection cannot run regular commands.
+ */
+export async function createDuplicateClient(): Promise<RedisClientType> {
+    const client = getRedisClient().duplicate() as RedisClientType;
+    client.on('error', (err: Error) => {
+        console.error('[redis] duplicate client error:', err.message);
+    });
+    await client.connect();
+    duplicateClients.push(client);
+    return client;
+}
+
 export async function set(key: string, value: string, expiryInSeconds?: number): Promise<void> {
     const client = getRedisClient();
     if (expiryInSeconds) {
@@ -146,6 +162,27 @@ export async function ttl(key: string): Promise<number> {
     return client.ttl(key);
 }
 
+export async function mGet(keys: string[]): Promise<(string | null)[]> {
+    if (keys.length === 0) return [];
+    const client = getRedisClient();
+    return client.mGet(keys);
+}
+
+export async function sAdd(key: string, member: string): Promise<number> {
+    const client = getRedisClient();
+    return client.sAdd(key, member);
+}
+
+export async function sRem(key: string, member: string): Promise<number> {
+    const client = getRedisClient();
+    return client.sRem(key, member);
+}
+
+export async function sCard(key: string): Promise<number> {
+    const client = getRedisClient();
+    return client.sCard(key);
+}
+
 export async function setJson<T = any>(key: string, value: T, expiryInSeconds?: number): Promise<void> {
     const client = getRedisClient();
     const jsonString = JSON.stringify(value);
@@ -171,9 +208,11 @@ export async function getJson<T = any>(key: string): Promise<T | null> {
 export async function shutdownRedis(timeoutMs = 5000): Promise<void> {
     if (!redisClient) return;
     const current = redisClient;
+    const duplicates = duplicateClients;
     redisClient = null;
+    duplicateClients = [];
     try {
-        const p = current.quit();
+        const p = Promise.all([current.quit(), ...duplicates.map((c) => c.quit())]);
         if (timeoutMs > 0) {
             await Promise.race([
                 p,
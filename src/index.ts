@@ -4,16 +4,25 @@ import cors from "cors";
 import cookieParser from 'cookie-parser';
 import Config from './config';
 import {initPostgres, shutdownPostgres} from "./databases/postgres";
-import {initRedis, shutdownRedis} from "./databases/redis";
+import {createDuplicateClient, initRedis, shutdownRedis} from "./databases/redis";
+import {createAdapter} from '@socket.io/redis-adapter';
 import userRouter from './modules/user/userRoute';
 import chatRouter from './modules/chat/chatRoute';
 import {errorHandler} from './middleware/errorHandler';
 import * as rabbit from './lib/rabbitmq';
 import * as ws from './lib/websocket';
+import {createSmtpMailer, setMailer} from './lib/mailer';
+import {loadKeys} from './modules/auth/keyStore';
+import jwksRouter from './modules/auth/jwksRoute';
+import adminRouter from './modules/admin/adminRoute';
 import chatRequestRouter from './modules/chatRequest/chatRequestRoute';
 import {logRequest} from './middleware/logrequest';
 import {registerChatWebSocketHandlers} from './modules/chat/chatWebSocket';
-import jwt from 'jsonwebtoken';
+import {registerPresenceWebSocketHandlers} from './modules/presence/presenceWebSocket';
+import {registerSyncWebSocketHandlers} from './modules/sync/syncWebSocket';
+import {registerSessionWebSocketHandlers} from './modules/session/sessionWebSocket';
+import {authenticateSocket, registerAuthWebSocketHandlers} from './modules/auth/authWebSocket';
+import {stopPresenceSweeper} from './modules/presence/presenceService';
 
 const app = express();
 const httpServer = createServer(app);
@@ -33,6 +42,9 @@ let server: typeof httpServer | null = null;
 
 async function start() {
     try {
+        // fail fast on missing / broken JWT keys
+        loadKeys();
+
         await initPostgres();
         await initRedis();
         await rabbit.connect(Config.RABBITMQ_URL, {
@@ -42,26 +54,28 @@ async function start() {
             useConfirmChannel: true,
         });
 
-        // Setup WebSocket authentication middleware
-        ws.useAuth((socket, next) => {
-            const token = socket.handshake.auth.token || socket.handshake.headers.authorization?.split(' ')[1];
-
-            if (!token) {
-                return next(new Error('Authentication error: Token missing'));
-            }
-
-            try {
-                const decoded = jwt.verify(token, Config.JWT_SECRET || '') as unknown as { id: string; email: string };
-                (socket as any).userId = decoded.id;
-                (socket as any).userEmail = decoded.email;
-                next();
-            } catch (err) {
-                next(new Error('Authentication error: Invalid token'));
-            }
-        });
+        setMailer(createSmtpMailer({
+            host: Config.SMTP_HOST,
+            port: Config.SMTP_PORT,
+            secure: Config.SMTP_SECURE,
+            user: Config.SMTP_USER,
+            pass: Config.SMTP_PASS,
+            from: Config.MAIL_FROM,
+        }));
+
+        // Setup WebSocket authentication middleware (same token checks as REST, incl. revocation)
+        ws.useAuth(authenticateSocket);
+
+        // Every client event requires an authenticated user
+        ws.use(ws.requireUser);
+
+        // Share rooms and emits between API instances through Redis pub/sub
+        const pubClient = await createDuplicateClient();
+        const subClient = await createDuplicateClient();
 
         // Initialize WebSocket server
         ws.initialize(httpServer, {
+            adapter: createAdapter(pubClient, subClient),
             cors: {
                 origin: Config.CLIENT_URL || '*',
                 credentials: true,
@@ -72,11 +86,17 @@ async function start() {
 
         // Register WebSocket event handlers
         registerChatWebSocketHandlers();
+        registerPresenceWebSocketHandlers();
+        registerSyncWebSocketHandlers();
+        registerSessionWebSocketHandlers();
+        registerAuthWebSocketHandlers();
 
         // Register routers after DB init
+        app.use('/.well-known', jwksRouter);
         app.use('/api/users', userRouter);
         app.use('/api/chats', chatRouter);
         app.use('/api/chat-requests', chatRequestRouter);
+        app.use('/api/admin', adminRouter);
         app.use('/api/health', (_req, res) => {
             res.status(200).send('OK');
         })
@@ -102,6 +122,7 @@ async function shutdown() {
     try {
         // eslint-disable-next-line no-console
         console.log('Shutting down...');
+        stopPresenceSweeper();
         await ws.close();
         await rabbit.close();
         await shutdownRedis();
@@ -0,0 +1,63 @@
+import nodemailer, {Transporter} from 'nodemailer';
+
+export type MailMessage = {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+};
+
+// Anything able to deliver a message: SMTP (default), a provider SDK, an in-memory outbox in tests...
+export type Mailer = {
+    send(message: MailMessage): Promise<void>;
+};
+
+export type SmtpConfig = {
+    host?: string;
+    port?: number;
+    secure?: boolean;
+    user?: string;
+    pass?: string;
+    from: string;
+};
+
+let mailer: Mailer | null = null;
+
+/**
+ * Mailer over nodemailer SMTP. Without a host, messages are only logged (local development);
+ * point host/port at a local SMTP catcher (MailHog, Mailpit, ...) to inspect real messages.
+ */
+export function createSmtpMailer(config: SmtpConfig): Mailer {
+    const transporter: Transporter = config.host
+        ? nodemailer.createTransport({
+            host: config.host,
+            port: config.port ?? 587,
+            secure: config.secure ?? false,
+            auth: config.user ? {user: config.user, pass: config.pass} : undefined,
+        })
+        : nodemailer.createTransport({jsonTransport: true});
+
+    return {
+        async send(message: MailMessage) {
+            const info = await transporter.sendMail({from: config.from, ...message});
+            if (!config.host) {
+                // eslint-disable-next-line no-console
+                console.info(`[mailer] no SMTP host configured, message to ${message.to}:`, info.message?.toString());
+            }
+        },
+    };
+}
+
+/**
+ * Replace the mailer used by sendMail()
+ */
+export function setMailer(next: Mailer): void {
+    mailer = next;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+    if (!mailer) {
+        throw new Error('[mailer] not configured. Call setMailer() first.');
+    }
+    await mailer.send(message);
+}
@@ -28,6 +28,13 @@ interface MinioConfig {
     region?: string;
 }
 
+// Optional restrictions applied to a presigned POST policy
+interface PostPolicyConditions {
+    contentType?: string;
+    minSize?: number;
+    maxSize?: number;
+}
+
 // Get configuration from environment variables
 const getMinioConfig = (): MinioConfig => {
     return {
@@ -357,15 +364,22 @@ class MinioClientWrapper {
      * @param {string} bucketName - Name of the bucket
      * @param {string} objectName - Name/path of the object
      * @param {number} [expiry=7200] - Policy expiry in seconds
+     * @param {PostPolicyConditions} [conditions] - Optional content-type and size restrictions
      * @returns {Promise<Minio.PostPolicy>} Presigned POST policy
      *
      * @example
      * ```typescript
      * const policy = await minioClient.getPresignedPostPolicy('images', 'upload/${filename}', 3600)
      * // Use policy.postURL and policy.formData in frontend
+     *
+     * // Restrict upload to a 5MB JPEG
+     * const strict = await minioClient.getPresignedPostPolicy('images', 'upload/a.jpg', 600, {
+     *   contentType: 'image/jpeg',
+     *   maxSize: 5 * 1024 * 1024,
+     * })
      * ```
      */
-    async getPresignedPostPolicy(bucketName: string, objectName: string, expiry: number = 7200): Promise<any> {
+    async getPresignedPostPolicy(bucketName: string, objectName: string, expiry: number = 7200, conditions?: PostPolicyConditions): Promise<any> {
         try {
             const policy = this.client.newPostPolicy()
             policy.setBucket(bucketName)
@@ -373,6 +387,12 @@ class MinioClientWrapper {
             const expires = new Date()
             expires.setSeconds(expires.getSeconds() + expiry)
             policy.setExpires(expires)
+            if (conditions?.contentType) {
+                policy.setContentType(conditions.contentType)
+            }
+            if (conditions?.maxSize) {
+                policy.setContentLengthRange(conditions.minSize ?? 1, conditions.maxSize)
+            }
 
             return await this.client.presignedPostPolicy(policy)
         } catch (error) {
@@ -535,6 +555,6 @@ export const getMinioClient = (): MinioClientWrapper => {
 }
 
 // Export types
-export type {MinioConfig}
+export type {MinioConfig, PostPolicyConditions}
 export {MinioClientWrapper}
 
@@ -0,0 +1,73 @@
+import {randomUUID} from 'crypto';
+import {getRedisClient} from '../databases/redis';
+
+export type RateLimit = {
+    // max hits allowed inside the window
+    limit: number;
+    windowSeconds: number;
+};
+
+export type RateLimitResult = {
+    allowed: boolean;
+    remaining: number;
+    // seconds until the next hit would be allowed (0 when allowed)
+    retryAfterSeconds: number;
+};
+
+// Sliding window log: one sorted-set entry per hit, scored by its time in ms.
+// Evaluated atomically so concurrent hits from several API instances cannot overshoot the limit.
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', key, '-inf', now - window)
+local count = redis.call('ZCARD', key)
+if count < limit then
+  redis.call('ZADD', key, now, ARGV[4])
+  redis.call('PEXPIRE', key, window)
+  return {1, limit - count - 1, 0}
+end
+local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+return {0, 0, tonumber(oldest[2]) + window - now}
+`;
+
+function keyFor(name: string, subject: string) {
+    return `ratelimit:${name}:${subject}`;
+}
+
+/**
+ * Count one hit of `subject` (user id, ip, ...) against the named limit
+ * Fails open when Redis is unavailable: rate limiting must not take the API down.
+ */
+export async function consume(name: string, subject: string, rule: RateLimit): Promise<RateLimitResult> {
+    const windowMs = rule.windowSeconds * 1000;
+    try {
+        const reply = await getRedisClient().eval(SLIDING_WINDOW_SCRIPT, {
+            keys: [keyFor(name, subject)],
+            arguments: [String(Date.now()), String(windowMs), String(rule.limit), randomUUID()],
+        }) as number[];
+        const [allowed, remaining, retryAfterMs] = reply.map(Number);
+        return {
+            allowed: allowed === 1,
+            remaining,
+            retryAfterSeconds: Math.ceil(retryAfterMs / 1000),
+        };
+    } catch (err) {
+        // eslint-disable-next-line no-console
+        console.warn(`[rateLimiter] ${name} check failed, allowing:`, (err as Error)?.message ?? err);
+        return {allowed: true, remaining: rule.limit, retryAfterSeconds: 0};
+    }
+}
+
+/**
+ * Forget the hits of `subject` for the named limit (e.g. after a successful login)
+ */
+export async function reset(name: string, subject: string): Promise<void> {
+    try {
+        await getRedisClient().del(keyFor(name, subject));
+    } catch (err) {
+        // eslint-disable-next-line no-console
+        console.warn(`[rateLimiter] ${name} reset failed:`, (err as Error)?.message ?? err);
+    }
+}
@@ -1,6 +1,7 @@
 import {Server as HttpServer} from 'http';
-import {Server, Socket} from 'socket.io';
+import {Server, ServerOptions, Socket} from 'socket.io';
 import {ExtendedError} from 'socket.io/dist/namespace';
+import {z} from 'zod';
 
 type IoServer = Server | null;
 
@@ -14,14 +15,157 @@ export type WebSocketConfig = {
     pingTimeout?: number;
     pingInterval?: number;
     path?: string;
+    // cluster adapter (e.g. @socket.io/redis-adapter) so rooms and emits span every node
+    adapter?: ServerOptions['adapter'];
 };
 
-export type MessageHandler<T = unknown> = (socket: Socket, data: T) => Promise<void> | void;
+// Acknowledgement callback passed by the client as the last emit argument
+export type AckCallback = (response: unknown) => void;
+
+export type MessageHandler<T = unknown> = (socket: Socket, data: T, ack?: AckCallback) => Promise<void> | void;
 
 export type AuthMiddleware = (socket: Socket, next: (err?: ExtendedError) => void) => Promise<void> | void;
 
-const eventHandlers = new Map<string, MessageHandler<any>>();
+export type ConnectionHandler = (socket: Socket) => Promise<void> | void;
+
+// Incoming event as seen by event middlewares; `data` is the validated payload once past validation
+export type EventContext<T = unknown> = {
+    socket: Socket;
+    event: string;
+    data: T;
+    ack?: AckCallback;
+};
+
+// Runs around handlers of an event; not calling next() stops the event
+export type EventMiddleware = (ctx: EventContext<any>, next: () => Promise<void>) => Promise<void> | void;
+
+// Error reported to the client through the acknowledgement or the `error` event
+export type EventError = {
+    code: string;
+    message: string;
+    [key: string]: unknown;
+};
+
+// A client event payload schema; `silent` drops invalid payloads without reporting back
+export type EventDefinition = z.ZodType | { schema: z.ZodType; silent?: boolean };
+
+export type EventPayload<D extends EventDefinition> = D extends { schema: infer S extends z.ZodType }
+    ? z.output<S>
+    : D extends z.ZodType ? z.output<D> : never;
+
+export type HandlerOptions = {
+    // run only around this handler, after the event's own middlewares
+    middleware?: EventMiddleware[];
+};
+
+type HandlerEntry = {
+    handler: MessageHandler<any>;
+    middleware: EventMiddleware[];
+};
+
+type EventEntry = {
+    schema?: z.ZodType;
+    silent: boolean;
+    middleware: EventMiddleware[];
+    handlers: HandlerEntry[];
+};
+
+const events = new Map<string, EventEntry>();
+const globalMiddlewares: EventMiddleware[] = [];
 const authMiddlewares: AuthMiddleware[] = [];
+const connectionHandlers: ConnectionHandler[] = [];
+// events a socket already has a dispatcher for
+const attachedEvents = new WeakMap<Socket, Set<string>>();
+
+function getEventEntry(event: string): EventEntry {
+    let entry = events.get(event);
+    if (!entry) {
+        entry = {silent: false, middleware: [], handlers: []};
+        events.set(event, entry);
+    }
+    return entry;
+}
+
+async function runMiddlewares(chain: EventMiddleware[], ctx: EventContext, last: () => Promise<void>): Promise<void> {
+    const step = async (index: number): Promise<void> => {
+        if (index === chain.length) return last();
+        let called = false;
+        await chain[index](ctx, () => {
+            if (called) throw new Error('next() called more than once');
+            called = true;
+            return step(index + 1);
+        });
+    };
+    return step(0);
+}
+
+// Errors carrying a string code and a 4xx status (e.g. HttpError) are expected and reported as-is
+function reportFailure(socket: Socket, event: string, ack: AckCallback | undefined, err: unknown): void {
+    const error = err instanceof Error ? err : new Error(String(err));
+    const {code, status} = err as { code?: unknown; status?: unknown };
+    if (typeof code === 'string' && typeof status === 'number' && status < 500) {
+        replyError(socket, event, ack, {code, message: error.message});
+        return;
+    }
+
+    // eslint-disable-next-line no-console
+    console.error(`[websocket] handler error for event "${event}":`, error.message);
+    replyError(socket, event, ack, {code: 'INTERNAL_ERROR', message: error.message});
+}
+
+async function dispatch(socket: Socket, event: string, data: unknown, ack?: AckCallback): Promise<void> {
+    const entry = events.get(event);
+    if (!entry || entry.handlers.length === 0) return;
+
+    const ctx: EventContext = {socket, event, data, ack};
+    try {
+        // global middlewares (auth, rate limits, logging) see the raw payload
+        await runMiddlewares(globalMiddlewares, ctx, async () => {
+            if (entry.schema) {
+                const parsed = entry.schema.safeParse(ctx.data);
+                if (!parsed.success) {
+                    if (!entry.silent) {
+                        replyError(socket, event, ack, {
+                            code: 'VALIDATION_ERROR',
+                            message: 'Invalid payload',
+                            errors: parsed.error.flatten().fieldErrors,
+                        });
+                    }
+                    return;
+                }
+                ctx.data = parsed.data;
+            }
+
+            await runMiddlewares(entry.middleware, ctx, async () => {
+                // handlers run in registration order; one failing does not stop the others
+                for (const {handler, middleware} of [...entry.handlers]) {
+                    try {
+                        await runMiddlewares(middleware, ctx, () => Promise.resolve(handler(socket, ctx.data, ack)));
+                    } catch (err) {
+                        reportFailure(socket, event, ack, err);
+                    }
+                }
+            });
+        });
+    } catch (err) {
+        reportFailure(socket, event, ack, err);
+    }
+}
+
+function attachEvent(socket: Socket, event: string): void {
+    let attached = attachedEvents.get(socket);
+    if (!attached) {
+        attached = new Set();
+        attachedEvents.set(socket, attached);
+    }
+    if (attached.has(event)) return;
+    attached.add(event);
+
+    socket.on(event, (data: unknown, ack?: unknown) => {
+        const callback = typeof ack === 'function' ? ack as AckCallback : undefined;
+        void dispatch(socket, event, data, callback);
+    });
+}
 
 /**
  * Initialize WebSocket server
@@ -41,6 +185,7 @@ export function initialize(httpServer: HttpServer, config: WebSocketConfig = {})
         pingTimeout: config.pingTimeout ?? 60000,
         pingInterval: config.pingInterval ?? 25000,
         path: config.path ?? '/socket.io',
+        ...(config.adapter ? {adapter: config.adapter} : {}),
     });
 
     // Apply auth middlewares
@@ -57,23 +202,24 @@ export function initialize(httpServer: HttpServer, config: WebSocketConfig = {})
         // eslint-disable-next-line no-console
         console.info(`[websocket] client connected: ${socket.id}`);
 
-        // Register all event handlers
-        eventHandlers.forEach((handler, event) => {
-            socket.on(event, async (data: unknown) => {
-                try {
-                    await Promise.resolve(handler(socket, data));
-                } catch (err) {
-                    const error = err instanceof Error ? err : new Error(String(err));
-                    // eslint-disable-next-line no-console
-                    console.error(`[websocket] handler error for event "${event}":`, error.message);
-                    socket.emit('error', {
-                        event,
-                        message: error.message,
-                    });
-                }
+        // Every authenticated socket joins its user's room, so all devices of a user can be reached
+        const userId = socket.data?.userId;
+        if (userId) {
+            socket.join(getUserRoom(userId));
+        }
+
+        // Run connection hooks (presence, etc.)
+        connectionHandlers.forEach((handler) => {
+            Promise.resolve(handler(socket)).catch((err) => {
+                const error = err instanceof Error ? err : new Error(String(err));
+                // eslint-disable-next-line no-console
+                console.error(`[websocket] connection handler error: ${socket.id}:`, error.message);
             });
         });
 
+        // Attach a dispatcher for every known event; handlers are looked up at dispatch time
+        events.forEach((_, event) => attachEvent(socket, event));
+
         socket.on('disconnect', (reason: string) => {
             // eslint-disable-next-line no-console
             console.info(`[websocket] client disconnected: ${socket.id}, reason: ${reason}`);
@@ -98,21 +244,45 @@ export function useAuth(middleware: AuthMiddleware): void {
     authMiddlewares.push(middleware);
 }
 
+/**
+ * Register a handler run for every new connection (after auth)
+ * Only applies to sockets connecting after registration
+ */
+export function onConnection(handler: ConnectionHandler): void {
+    connectionHandlers.push(handler);
+}
+
 /**
  * Register an event handler
- * Can be called before or after initialize()
+ * Several handlers may listen to the same event; they run in registration order.
+ * Can be called before or after initialize(), late registrations reach live sockets too.
+ * Returns a function removing this handler.
  */
-export function on<T = unknown>(event: string, handler: MessageHandler<T>): void {
-    eventHandlers.set(event, handler);
+export function on<T = unknown>(event: string, handler: MessageHandler<T>, options: HandlerOptions = {}): () => void {
+    const entry = getEventEntry(event);
+    const registration: HandlerEntry = {handler, middleware: options.middleware ?? []};
+    entry.handlers.push(registration);
+
+    io?.sockets.sockets.forEach((socket) => attachEvent(socket, event));
+
     // eslint-disable-next-line no-console
     console.info(`[websocket] registered handler for event: ${event}`);
+    return () => {
+        const index = entry.handlers.indexOf(registration);
+        if (index !== -1) entry.handlers.splice(index, 1);
+    };
 }
 
 /**
- * Remove an event handler
+ * Remove a handler of an event, or all of its handlers when none is given
  */
-export function off(event: string): boolean {
-    const existed = eventHandlers.delete(event);
+export function off(event: string, handler?: MessageHandler<any>): boolean {
+    const entry = events.get(event);
+    if (!entry) return false;
+
+    const before = entry.handlers.length;
+    entry.handlers = handler ? entry.handlers.filter((h) => h.handler !== handler) : [];
+    const existed = entry.handlers.length !== before;
     if (existed) {
         // eslint-disable-next-line no-console
         console.info(`[websocket] removed handler for event: ${event}`);
@@ -120,8 +290,109 @@ export function off(event: string): boolean {
     return existed;
 }
 
+/**
+ * Register an event middleware, for every event or for a single one
+ * Global middlewares run before payload validation, per-event ones after it
+ */
+export function use(middleware: EventMiddleware): void;
+export function use(event: string, middleware: EventMiddleware): void;
+export function use(eventOrMiddleware: string | EventMiddleware, middleware?: EventMiddleware): void {
+    if (typeof eventOrMiddleware === 'function') {
+        globalMiddlewares.push(eventOrMiddleware);
+        return;
+    }
+    if (!middleware) {
+        throw new Error('[websocket] use(event, middleware) requires a middleware');
+    }
+    getEventEntry(eventOrMiddleware).middleware.push(middleware);
+}
+
+/**
+ * Declare the payload schema of a client event; handlers receive the parsed payload
+ */
+export function defineEvent(event: string, definition: EventDefinition): void {
+    const {schema, silent} = definition instanceof z.ZodType ? {schema: definition, silent: false} : definition;
+    const entry = getEventEntry(event);
+    if (entry.schema && entry.schema !== schema) {
+        throw new Error(`[websocket] event "${event}" already has a different schema`);
+    }
+    entry.schema = schema;
+    entry.silent = silent ?? false;
+}
+
+/**
+ * Typed view over a set of client events (name -> payload schema) and server events (name -> payload)
+ */
+export type EventContract<C extends Record<string, EventDefinition>, S extends Record<string, unknown>> = {
+    on<E extends keyof C & string>(event: E, handler: MessageHandler<EventPayload<C[E]>>, options?: HandlerOptions): () => void;
+    use<E extends keyof C & string>(event: E, middleware: EventMiddleware): void;
+    emit<E extends keyof S & string>(socket: Socket, event: E, data: S[E]): void;
+    // emit to a room except the given socket
+    emitToOthers<E extends keyof S & string>(socket: Socket, room: string, event: E, data: S[E]): void;
+    emitToRoom<E extends keyof S & string>(room: string, event: E, data: S[E]): void;
+    emitToUser<E extends keyof S & string>(userId: string, event: E, data: S[E]): void;
+};
+
+/**
+ * Declare a module's client events and get typed registration / emit helpers for them
+ */
+export function defineEvents<C extends Record<string, EventDefinition>, S extends Record<string, unknown> = Record<string, unknown>>(definitions: C): EventContract<C, S> {
+    Object.entries(definitions).forEach(([event, definition]) => defineEvent(event, definition));
+
+    return {
+        on: (event, handler, options) => on(event, handler, options),
+        use: (event, middleware) => use(event, middleware),
+        emit: (socket, event, data) => {
+            socket.emit(event, data);
+        },
+        emitToOthers: (socket, room, event, data) => {
+            socket.to(room).emit(event, data);
+        },
+        emitToRoom: (room, event, data) => emitToRoom(room, event, data),
+        emitToUser: (userId, event, data) => emitToUser(userId, event, data),
+    };
+}
+
+/**
+ * Report a failure through the acknowledgement when the client asked for one,
+ * otherwise through the generic `error` event
+ */
+export function replyError(socket: Socket, event: string, ack: AckCallback | undefined, error: EventError): void {
+    if (ack) {
+        ack({ok: false, error});
+        return;
+    }
+    socket.emit('error', {event, ...error});
+}
+
+/**
+ * Event middleware rejecting sockets without an authenticated user
+ */
+export const requireUser: EventMiddleware = async (ctx, next) => {
+    if (!ctx.socket.data?.userId) {
+        replyError(ctx.socket, ctx.event, ctx.ack, {code: 'UNAUTHORIZED', message: 'Not authenticated'});
+        return;
+    }
+    await next();
+};
+
+/**
+ * Event middleware logging every incoming event with its duration
+ */
+export const logEvents: EventMiddleware = async (ctx, next) => {
+    const startedAt = Date.now();
+    try {
+        await next();
+    } finally {
+        // eslint-disable-next-line no-console
+        console.info(`[websocket] ${ctx.event} from ${ctx.socket.id} (${Date.now() - startedAt}ms)`);
+    }
+};
+
 /**
  * Emit event to specific socket by socket ID
+ * Returns true when the socket is connected to this node; otherwise the event is
+ * forwarded through the adapter in case the socket lives on another node
  */
 export function emitToSocket<T = unknown>(socketId: string, event: string, data: T): boolean {
     if (!io) {
@@ -130,6 +401,8 @@ export function emitToSocket<T = unknown>(socketId: string, event: string, data:
 
     const socket = io.sockets.sockets.get(socketId);
     if (!socket) {
+        // every socket is in a room named after its id
+        io.to(socketId).emit(event, data);
         return false;
     }
 
@@ -148,6 +421,50 @@ export function emitToRoom<T = unknown>(room: string, event: string, data: T): v
     io.to(room).emit(event, data);
 }
 
+/**
+ * Name of the personal room every socket of a user joins on connection
+ * (requires an auth middleware that sets socket.data.userId)
+ */
+export function getUserRoom(userId: string): string {
+    return `user:${userId}`;
+}
+
+/**
+ * Emit event to every connected socket (device) of a user
+ */
+export function emitToUser<T = unknown>(userId: string, event: string, data: T): void {
+    emitToRoom(getUserRoom(userId), event, data);
+}
+
+/**
+ * Make all sockets of a user join a room
+ */
+export function addUserToRoom(userId: string, room: string): void {
+    if (!io) {
+        throw new Error('[websocket] not initialized. Call initialize() first.');
+    }
+
+    io.in(getUserRoom(userId)).socketsJoin(room);
+}
+
+/**
+ * Make all sockets of a user leave a room
+ */
+export function removeUserFromRoom(userId: string, room: string): void {
+    if (!io) {
+        throw new Error('[websocket] not initialized. Call initialize() first.');
+    }
+
+    io.in(getUserRoom(userId)).socketsLeave(room);
+}
+
+/**
+ * Get socket IDs of all connected devices of a user
+ */
+export async function getUserSocketIds(userId: string): Promise<string[]> {
+    return getSocketsInRoom(getUserRoom(userId));
+}
+
 /**
  * Emit event to all connected clients
  */
@@ -169,7 +486,13 @@ export async function joinRoom(socketId: string, room: string): Promise<boolean>
 
     const socket = io.sockets.sockets.get(socketId);
     if (!socket) {
-        return false;
+        // ask the node holding the socket (if any) to join it
+        const remote = await io.in(socketId).fetchSockets();
+        if (remote.length === 0) {
+            return false;
+        }
+        io.in(socketId).socketsJoin(room);
+        return true;
     }
 
     await socket.join(room);
@@ -188,7 +511,12 @@ export async function leaveRoom(socketId: string, room: string): Promise<boolean
 
     const socket = io.sockets.sockets.get(socketId);
     if (!socket) {
-        return false;
+        const remote = await io.in(socketId).fetchSockets();
+        if (remote.length === 0) {
+            return false;
+        }
+        io.in(socketId).socketsLeave(room);
+        return true;
     }
 
     await socket.leave(room);
@@ -198,7 +526,7 @@ export async function leaveRoom(socketId: string, room: string): Promise<boolean
 }
 
 /**
- * Get all socket IDs in a room
+ * Get all socket IDs in a room (across all nodes when a cluster adapter is configured)
  */
 export async function getSocketsInRoom(room: string): Promise<string[]> {
     if (!io) {
@@ -210,7 +538,7 @@ export async function getSocketsInRoom(room: string): Promise<string[]> {
 }
 
 /**
- * Get all rooms a socket has joined
+ * Get all rooms a socket has joined (local sockets only)
  */
 export function getSocketRooms(socketId: string): Set<string> | null {
     if (!io) {
@@ -225,23 +553,53 @@ export function getSocketRooms(socketId: string): Set<string> | null {
     return socket.rooms;
 }
 
+/**
+ * Get all rooms a socket has joined, looking the socket up on every node
+ */
+export async function fetchSocketRooms(socketId: string): Promise<Set<string> | null> {
+    if (!io) {
+        throw new Error('[websocket] not initialized. Call initialize() first.');
+    }
+
+    const [socket] = await io.in(socketId).fetchSockets();
+    return socket ? socket.rooms : null;
+}
+
 /**
  * Disconnect a specific socket
+ * Local sockets are disconnected directly, others through the adapter
  */
-export function disconnectSocket(socketId: string, close: boolean = false): boolean {
+export async function disconnectSocket(socketId: string, close: boolean = false): Promise<boolean> {
     if (!io) {
         throw new Error('[websocket] not initialized. Call initialize() first.');
     }
 
     const socket = io.sockets.sockets.get(socketId);
-    if (!socket) {
+    if (socket) {
+        socket.disconnect(close);
+        return true;
+    }
+
+    const remote = await io.in(socketId).fetchSockets();
+    if (remote.length === 0) {
         return false;
     }
 
-    socket.disconnect(close);
+    io.in(socketId).disconnectSockets(close);
     return true;
 }
 
+/**
+ * Disconnect every socket in a room (e.g. all devices of a user), on every node
+ */
+export function disconnectRoom(room: string, close: boolean = false): void {
+    if (!io) {
+        throw new Error('[websocket] not initialized. Call initialize() first.');
+    }
+
+    io.in(room).disconnectSockets(close);
+}
+
 /**
  * Get the Socket.IO server instance
  */
@@ -257,7 +615,7 @@ export function isInitialized(): boolean {
 }
 
 /**
- * Get total number of connected clients
+ * Get total number of clients connected to this node
  */
 export function getConnectedCount(): number {
     if (!io) {
@@ -268,7 +626,19 @@ export function getConnectedCount(): number {
 }
 
 /**
- * Close WebSocket server
+ * Get total number of connected clients across all nodes
+ */
+export async function getClusterConnectedCount(): Promise<number> {
+    if (!io) {
+        return 0;
+    }
+
+    const sockets = await io.fetchSockets();
+    return sockets.length;
+}
+
+/**
+ * Close WebSocket server and forget registered handlers and middlewares, so a later initialize starts clean
  */
 export async function close(): Promise<void> {
     if (!io) {
@@ -286,6 +656,9 @@ export async function close(): Promise<void> {
     });
 
     io = null;
-    eventHandlers.clear();
+    events.clear();
+    globalMiddlewares.length = 0;
+    connectionHandlers.length = 0;
+    authMiddlewares.length = 0;
 }
 
@@ -14,8 +14,9 @@ export async function authenticate(req: Request, res: Response, next: NextFuncti
 
         let payload: any;
         try {
-            payload = tokenService.verifyAccessToken(token);
+            payload = await tokenService.authenticateAccessToken(token);
         } catch (err) {
+            if ((err as any)?.code === 'TOKEN_REVOKED') return sendError(res, 401, 'token_revoked');
             return sendError(res, 401, 'invalid_token');
         }
 
@@ -23,6 +24,8 @@ export async function authenticate(req: Request, res: Response, next: NextFuncti
         (req as any).user = {
             id: payload?.sub,
             email: payload?.email,
+            // device session (refresh token lineage) the token was issued for
+            sessionId: payload?.sid ?? null,
             raw: payload,
         };
 
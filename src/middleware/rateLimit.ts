@@ -0,0 +1,64 @@
+import {createHash} from 'crypto';
+import {NextFunction, Request, Response} from 'express';
+import * as rateLimiter from '../lib/rateLimiter';
+import * as ws from '../lib/websocket';
+import {sendError} from '../utils/response';
+
+type RouteLimitOptions = rateLimiter.RateLimit & {
+    // limit name, used in the Redis key; routes sharing a name share the budget
+    name: string;
+    // who is limited; defaults to the authenticated user, else the client ip.
+    // Returning null skips the check (e.g. field missing, validation reports it)
+    key?: (req: Request) => string | null;
+};
+
+export function clientIp(req: Request): string {
+    return req.ip ?? req.socket.remoteAddress ?? 'unknown';
+}
+
+// Emails and other identifiers are hashed so they do not end up in Redis in clear
+export function hashSubject(value: string): string {
+    return createHash('sha256').update(value.trim().toLowerCase()).digest('hex');
+}
+
+/**
+ * Express middleware limiting a route, answers 429 `rate_limited` with a Retry-After header
+ */
+export function rateLimit(options: RouteLimitOptions) {
+    return async function (req: Request, res: Response, next: NextFunction) {
+        const subject = options.key ? options.key(req) : ((req as any).user?.id ?? clientIp(req));
+        if (!subject) return next();
+
+        const result = await rateLimiter.consume(options.name, subject, options);
+        res.setHeader('X-RateLimit-Limit', String(options.limit));
+        res.setHeader('X-RateLimit-Remaining', String(result.remaining));
+        if (!result.allowed) {
+            res.setHeader('Retry-After', String(result.retryAfterSeconds));
+            return sendError(res, 429, 'rate_limited', {retry_after: result.retryAfterSeconds});
+        }
+        return next();
+    };
+}
+
+/**
+ * Socket event middleware applying per-user limits to the listed events
+ * Register globally (ws.use) so floods are rejected before payload validation.
+ */
+export function socketRateLimit(limits: Record<string, rateLimiter.RateLimit>): ws.EventMiddleware {
+    return async (ctx, next) => {
+        const rule = limits[ctx.event];
+        if (!rule) return next();
+
+        const subject = ctx.socket.data?.userId ?? ctx.socket.id;
+        const result = await rateLimiter.consume(`ws:${ctx.event}`, subject, rule);
+        if (!result.allowed) {
+            ws.replyError(ctx.socket, ctx.event, ctx.ack, {
+                code: 'RATE_LIMITED',
+                message: 'Too many requests',
+                retryAfter: result.retryAfterSeconds,
+            });
+            return;
+        }
+        await next();
+    };
+}
@@ -0,0 +1,17 @@
+import {NextFunction, Request, Response} from 'express';
+import * as userRepo from '../modules/user/userRepository';
+import {sendError} from '../utils/response';
+
+/**
+ * Allow only admin accounts; mount after `authenticate`.
+ * The flag is read per request so revoking admin rights takes effect immediately.
+ */
+export async function requireAdmin(req: Request, res: Response, next: NextFunction) {
+    try {
+        const userId = (req as any).user?.id;
+        if (!userId || !(await userRepo.isAdmin(userId))) return sendError(res, 403, 'forbidden');
+        return next();
+    } catch (err) {
+        return next(err);
+    }
+}
@@ -0,0 +1,39 @@
+import {Request, Response, Router} from 'express';
+import {z} from 'zod';
+import {asyncHandler} from '../../middleware/asyncHandler';
+import {authenticate} from '../../middleware/auth';
+import {requireAdmin} from '../../middleware/requireAdmin';
+import {sendError, sendSuccess} from '../../utils/response';
+import * as loginProtection from '../auth/loginProtection';
+
+const router = Router();
+
+router.use(authenticate, requireAdmin);
+
+// locked accounts and ips; ?email= shows the failure state of one email instead
+router.get('/login-lockouts', asyncHandler(async (req: Request, res: Response) => {
+    const parse = z.object({email: z.string().email('invalid_email').max(255).optional()}).safeParse(req.query);
+    if (!parse.success) {
+        const errors = parse.error.flatten().fieldErrors;
+        return sendError(res, 400, 'validation_error', errors);
+    }
+    if (parse.data.email) {
+        const lockout = await loginProtection.getAccountLockout(parse.data.email);
+        return sendSuccess(res, lockout);
+    }
+    const lockouts = await loginProtection.listLockouts();
+    return sendSuccess(res, lockouts);
+}));
+
+// lift a lock early, e.g. after confirming with the account owner
+router.delete('/login-lockouts/:scope/:subject', asyncHandler(async (req: Request, res: Response) => {
+    const parse = z.object({scope: z.enum(['account', 'ip']), subject: z.string().min(1).max(128)}).safeParse(req.params);
+    if (!parse.success) {
+        const errors = parse.error.flatten().fieldErrors;
+        return sendError(res, 400, 'validation_error', errors);
+    }
+    const unlocked = await loginProtection.unlock(parse.data.scope, parse.data.subject);
+    return sendSuccess(res, {unlocked});
+}));
+
+export default router;
@@ -0,0 +1,36 @@
+import {z} from 'zod';
+
+export const UploadRequestSchema = z.object({
+    file_name: z.string().trim().min(1).max(255),
+    content_type: z.string().trim().min(1).max(100),
+    size: z.number().int().positive(),
+});
+export type UploadRequestInput = z.infer<typeof UploadRequestSchema>;
+
+// Upload slot handed out to a member, remembered until the message referencing it is sent
+export type PendingUpload = {
+    chat_id: string;
+    user_id: string;
+    object_key: string;
+    file_name: string;
+    content_type: string;
+    size: number;
+};
+
+// A slot taken out of Redis by one send, with what was left of its lifetime for putting it back
+export type ClaimedUpload = PendingUpload & { ttl_seconds: number };
+
+export type UploadSlot = {
+    object_key: string;
+    url: string;
+    fields: Record<string, string>;
+    expires_at: string;
+};
+
+export type AttachmentRow = {
+    id: string;
+    message_id: string;
+    file_url: string;
+    file_type: string | null;
+    file_size: number | null;
+};
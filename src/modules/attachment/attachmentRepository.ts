@@ -0,0 +1,24 @@
+import {query} from '../../databases/postgres';
+import {PoolClient} from 'pg';
+import {AttachmentRow} from './attachmentModel';
+
+export async function createAttachmentWithClient(client: PoolClient, messageId: string, fileUrl: string, fileType: string | null, fileSize: number | null): Promise<AttachmentRow> {
+    const res = await client.query<AttachmentRow>('INSERT INTO message_attachments (message_id, file_url, file_type, file_size) VALUES ($1, $2, $3, $4) RETURNING id, message_id, file_url, file_type, file_size', [messageId, fileUrl, fileType, fileSize]);
+    return res.rows[0];
+}
+
+// Attachment together with the chat of its (non deleted) message
+export async function findByIdInChat(attachmentId: string, chatId: string): Promise<AttachmentRow | null> {
+    const res = await query<AttachmentRow>(`SELECT a.id, a.message_id, a.file_url, a.file_type, a.file_size
+                                            FROM message_attachments a
+                                                     JOIN messages m ON m.id = a.message_id
+                                            WHERE a.id = $1
+                                              AND m.chat_id = $2
+                                              AND m.deleted_at IS NULL`, [attachmentId, chatId]);
+    return res.rows[0] ?? null;
+}
+
+export async function listForMessage(messageId: string): Promise<AttachmentRow[]> {
+    const res = await query<AttachmentRow>('SELECT id, message_id, file_url, file_type, file_size FROM message_attachments WHERE message_id = $1', [messageId]);
+    return res.rows;
+}
@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+import * as repo from './attachmentRepository';
+import * as chatService from '../chat/chatService';
+import * as redis from '../../databases/redis';
+import {getMinioClient} from '../../lib/minio';
+import {HttpError} from '../../errors/HttpError';
+import Config from '../../config';
+import {ClaimedUpload, PendingUpload, UploadRequestInput, UploadSlot} from './attachmentModel';
+
+let bucketReady: Promise<void> | null = null;
+
+function ensureBucket(): Promise<void> {
+    if (!bucketReady) {
+        bucketReady = getMinioClient().ensureBucket(Config.MINIO_CHAT_BUCKET).catch((err) => {
+            // retry on the next request
+            bucketReady = null;
+            throw err;
+        });
+    }
+    return bucketReady;
+}
+
+function pendingKey(objectKey: string) {
+    return `attachment:upload:${objectKey}`;
+}
+
+// Read and delete the slot in one step, so two sends cannot both attach the same object
+const TAKE_PENDING_SCRIPT = `
+local value = redis.call('GET', KEYS[1])
+if not value then return false end
+local ttl = redis.call('TTL', KEYS[1])
+redis.call('DEL', KEYS[1])
+return {value, ttl}`;
+
+function safeFileName(name: string) {
+    const cleaned = name.replace(/[^A-Za-z0-9._-]+/g, '_').replace(/^[._]+/, '');
+    return (cleaned || 'file').slice(-100);
+}
+
+/**
+ * Hand out a presigned POST slot so a member can upload straight to the bucket.
+ * Content type and size are enforced both here and by the policy itself.
+ */
+export async function requestUpload(chatId: string, userId: string, input: UploadRequestInput): Promise<UploadSlot> {
+    await chatService.assertChatMember(chatId, userId);
+
+    const contentType = input.content_type.toLowerCase();
+    if (!Config.ATTACHMENT_ALLOWED_TYPES.includes(contentType)) {
+        throw new HttpError(400, 'UNSUPPORTED_FILE_TYPE', 'File type is not allowed');
+    }
+    if (input.size > Config.ATTACHMENT_MAX_BYTES) {
+        throw new HttpError(413, 'FILE_TOO_LARGE', `File exceeds ${Config.ATTACHMENT_MAX_BYTES} bytes`);
+    }
+
+    await ensureBucket();
+
+    const objectKey = `chats/${chatId}/${crypto.randomUUID()}/${safeFileName(input.file_name)}`;
+    const ttl = Config.ATTACHMENT_UPLOAD_TTL_SECONDS;
+    const policy = await getMinioClient().getPresignedPostPolicy(Config.MINIO_CHAT_BUCKET, objectKey, ttl, {
+        contentType,
+        maxSize: input.size,
+    });
+
+    const pending: PendingUpload = {
+        chat_id: chatId,
+        user_id: userId,
+        object_key: objectKey,
+        file_name: input.file_name,
+        content_type: contentType,
+        size: input.size,
+    };
+    // keep the slot a little longer than the policy so a finished upload can still be claimed
+    await redis.setJson(pendingKey(objectKey), pending, ttl * 2);
+
+    return {
+        object_key: objectKey,
+        url: policy.postURL,
+        fields: policy.formData,
+        expires_at: new Date(Date.now() + ttl * 1000).toISOString(),
+    };
+}
+
+/**
+ * Take the upload slot and validate the uploaded object before it is attached to a message of the given type.
+ * The slot must belong to the same chat and sender and the object must match what was declared.
+ * A failed check puts the slot back; once claimed, the caller restores it if the message is not stored.
+ */
+export async function claimUpload(chatId: string, userId: string, objectKey: string, messageType: 'image' | 'file'): Promise<ClaimedUpload> {
+    const taken = await redis.getRedisClient().eval(TAKE_PENDING_SCRIPT, {keys: [pendingKey(objectKey)]}) as [string, number] | null;
+    if (!taken) throw new HttpError(400, 'INVALID_ATTACHMENT', 'Unknown or expired upload');
+    const claim: ClaimedUpload = {...JSON.parse(taken[0]) as PendingUpload, ttl_seconds: Number(taken[1])};
+
+    try {
+        return {...claim, size: await checkUpload(chatId, userId, claim, messageType)};
+    } catch (err) {
+        await restoreUpload(claim);
+        throw err;
+    }
+}
+
+// Returns the stored size of the object
+async function checkUpload(chatId: string, userId: string, pending: PendingUpload, messageType: 'image' | 'file'): Promise<number> {
+    if (pending.chat_id !== chatId || pending.user_id !== userId) {
+        throw new HttpError(400, 'INVALID_ATTACHMENT', 'Unknown or expired upload');
+    }
+    if (messageType === 'image' && !pending.content_type.startsWith('image/')) {
+        throw new HttpError(400, 'INVALID_ATTACHMENT', 'Image messages require an image upload');
+    }
+
+    let stat;
+    try {
+        stat = await getMinioClient().getFileStats(Config.MINIO_CHAT_BUCKET, pending.object_key);
+    } catch (_) {
+        throw new HttpError(400, 'ATTACHMENT_NOT_UPLOADED', 'File has not been uploaded yet');
+    }
+    const storedType = String(stat.metaData?.['content-type'] ?? '').toLowerCase();
+    if (stat.size > pending.size || (storedType && storedType !== pending.content_type)) {
+        throw new HttpError(400, 'INVALID_ATTACHMENT', 'Uploaded file does not match the upload request');
+    }
+    return stat.size;
+}
+
+/**
+ * Put a claimed slot back for its remaining lifetime, e.g. when storing the message failed
+ */
+export async function restoreUpload(claim: ClaimedUpload): Promise<void> {
+    const {ttl_seconds: ttl, ...pending} = claim;
+    if (ttl <= 0) return;
+    try {
+        await redis.setJson(pendingKey(pending.object_key), pending, ttl);
+    } catch (err) {
+        // eslint-disable-next-line no-console
+        console.warn(`[attachment] failed to restore upload slot ${pending.object_key}:`, (err as Error)?.message ?? err);
+    }
+}
+
+export async function getDownloadUrl(chatId: string, attachmentId: string, userId: string) {
+    await chatService.assertChatMember(chatId, userId);
+    const attachment = await repo.findByIdInChat(attachmentId, chatId);
+    if (!attachment) throw new HttpError(404, 'ATTACHMENT_NOT_FOUND', 'Attachment not found');
+
+    const ttl = Config.ATTACHMENT_DOWNLOAD_TTL_SECONDS;
+    const url = await getMinioClient().getPresignedUrl(Config.MINIO_CHAT_BUCKET, attachment.file_url, ttl);
+    return {
+        id: attachment.id,
+        url,
+        file_type: attachment.file_type,
+        file_size: attachment.file_size,
+        expires_at: new Date(Date.now() + ttl * 1000).toISOString(),
+    };
+}
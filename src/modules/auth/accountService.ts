@@ -0,0 +1,80 @@
+import crypto from 'crypto';
+import Config from '../../config';
+import {withTransaction} from '../../databases/postgres';
+import {HttpError} from '../../errors/HttpError';
+import * as mailer from '../../lib/mailer';
+import * as userTokenRepo from '../token/userTokenRepository';
+import {UserTokenPurpose} from '../token/userTokenRepository';
+import * as refreshRepo from '../token/refreshTokenRepository';
+import * as userRepo from '../user/userRepository';
+import {hashPassword} from '../user/userService';
+import * as tokenService from './tokenService';
+import {passwordResetEmail, verificationEmail} from './authEmails';
+
+function hashToken(token: string) {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Only the hash is stored; the raw token exists in the emailed link alone
+async function issueToken(userId: string, purpose: UserTokenPurpose, ttlSeconds: number): Promise<string> {
+    const token = crypto.randomBytes(32).toString('base64url');
+    await userTokenRepo.saveUserToken({
+        userId,
+        purpose,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+    });
+    return token;
+}
+
+export async function sendVerificationEmail(userId: string) {
+    const user = await userRepo.getUserById(userId);
+    if (!user) throw new HttpError(404, 'NOT_FOUND', 'User not found');
+    if (user.email_verified_at) throw new HttpError(409, 'EMAIL_ALREADY_VERIFIED', 'Email already verified');
+
+    const token = await issueToken(user.id, 'email_verification', Config.EMAIL_VERIFICATION_TTL_HOURS * 60 * 60);
+    await mailer.sendMail(verificationEmail(user.email, user.name, token));
+}
+
+export async function verifyEmail(token: string) {
+    return withTransaction(async (client) => {
+        const userId = await userTokenRepo.consumeUserTokenWithClient(client, 'email_verification', hashToken(token));
+        if (!userId) throw new HttpError(400, 'INVALID_TOKEN', 'Verification link is invalid or expired');
+        await userRepo.markEmailVerifiedWithClient(client, userId);
+        await userTokenRepo.invalidateUserTokensWithClient(client, userId, 'email_verification');
+    });
+}
+
+/**
+ * Email a reset link if the account exists. Callers answer the same way either way,
+ * so the endpoint cannot be used to find out which emails are registered.
+ */
+export async function requestPasswordReset(email: string) {
+    const user = await userRepo.getUserByEmail(email);
+    if (!user) return;
+
+    const token = await issueToken(user.id, 'password_reset', Config.PASSWORD_RESET_TTL_MINUTES * 60);
+    await mailer.sendMail(passwordResetEmail(user.email, user.name, token));
+}
+
+/**
+ * Set a new password from a reset link and sign the account out everywhere
+ */
+export async function resetPassword(token: string, password: string) {
+    const passwordHash = await hashPassword(password);
+
+    const userId = await withTransaction(async (client) => {
+        const owner = await userTokenRepo.consumeUserTokenWithClient(client, 'password_reset', hashToken(token));
+        if (!owner) throw new HttpError(400, 'INVALID_TOKEN', 'Reset link is invalid or expired');
+
+        await userRepo.updatePasswordWithClient(client, owner, passwordHash);
+        // receiving the link proves the email as well
+        await userRepo.markEmailVerifiedWithClient(client, owner);
+        await userTokenRepo.invalidateUserTokensWithClient(client, owner, 'password_reset');
+        await refreshRepo.revokeAllForUserWithClient(client, owner);
+        return owner;
+    });
+
+    // access tokens are not in the database, reject the ones already issued
+    await tokenService.revokeUserAccess(userId);
+}
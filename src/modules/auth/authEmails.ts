@@ -0,0 +1,41 @@
+import Config from '../../config';
+import {MailMessage} from '../../lib/mailer';
+
+function appLink(path: string, token: string) {
+    return `${Config.APP_URL.replace(/\/$/, '')}${path}?token=${encodeURIComponent(token)}`;
+}
+
+export function verificationEmail(to: string, name: string, token: string): MailMessage {
+    const link = appLink('/verify-email', token);
+    return {
+        to,
+        subject: 'Verify your email address',
+        text: `Hi ${name},\n\nConfirm your email address by opening this link:\n${link}\n\nThe link expires in ${Config.EMAIL_VERIFICATION_TTL_HOURS} hours.`,
+        html: `<p>Hi ${escapeHtml(name)},</p><p>Confirm your email address by opening <a href="${link}">this link</a>.</p><p>The link expires in ${Config.EMAIL_VERIFICATION_TTL_HOURS} hours.</p>`,
+    };
+}
+
+export function passwordResetEmail(to: string, name: string, token: string): MailMessage {
+    const link = appLink('/reset-password', token);
+    return {
+        to,
+        subject: 'Reset your password',
+        text: `Hi ${name},\n\nSomeone asked to reset the password of your account. To choose a new password open:\n${link}\n\nThe link expires in ${Config.PASSWORD_RESET_TTL_MINUTES} minutes. If it was not you, ignore this email.`,
+        html: `<p>Hi ${escapeHtml(name)},</p><p>Someone asked to reset the password of your account. <a href="${link}">Choose a new password</a>.</p><p>The link expires in ${Config.PASSWORD_RESET_TTL_MINUTES} minutes. If it was not you, ignore this email.</p>`,
+    };
+}
+
+export function accountLockedEmail(to: string, name: string, lockedUntil: string, ip: string | null): MailMessage {
+    const from = ip ? ` from ${ip}` : '';
+    const link = `${Config.APP_URL.replace(/\/$/, '')}/forgot-password`;
+    return {
+        to,
+        subject: 'Your account was temporarily locked',
+        text: `Hi ${name},\n\nThere were several failed sign-in attempts on your account${from}, so signing in is blocked until ${lockedUntil}.\n\nIf this was not you, consider changing your password: ${link}`,
+        html: `<p>Hi ${escapeHtml(name)},</p><p>There were several failed sign-in attempts on your account${escapeHtml(from)}, so signing in is blocked until ${lockedUntil}.</p><p>If this was not you, consider <a href="${link}">changing your password</a>.</p>`,
+    };
+}
+
+function escapeHtml(value: string) {
+    return value.replace(/[&<>"']/g, (c) => ({'&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', '\'': '&#39;'}[c] as string));
+}
@@ -0,0 +1,113 @@
+import * as ws from '../../lib/websocket';
+import {Socket} from 'socket.io';
+import {ExtendedError} from 'socket.io/dist/namespace';
+import {z} from 'zod';
+import * as tokenService from './tokenService';
+import {getSessionRoom} from '../session/sessionWebSocket';
+
+// Warn clients this long before their token expires, so they refresh in-band in time
+const EXPIRY_WARNING_MS = 60 * 1000;
+
+const expiryTimers = new Map<string, NodeJS.Timeout[]>();
+
+function applyToken(socket: Socket, payload: any) {
+    (socket as any).userId = payload.sub;
+    (socket as any).userEmail = payload.email;
+    // socket.data is visible through fetchSockets()
+    socket.data.userId = payload.sub;
+    socket.data.sessionId = payload.sid ?? null;
+    socket.data.tokenExp = payload.exp;
+}
+
+function clearExpiry(socket: Socket) {
+    expiryTimers.get(socket.id)?.forEach((timer) => clearTimeout(timer));
+    expiryTimers.delete(socket.id);
+}
+
+// Disconnect the socket when its access token expires, unless it refreshes first
+function scheduleExpiry(socket: Socket) {
+    clearExpiry(socket);
+    const expiresAt = socket.data.tokenExp * 1000;
+    const remaining = expiresAt - Date.now();
+
+    const warning = setTimeout(() => {
+        socket.emit('auth:expiring', {expiresAt: new Date(expiresAt).toISOString()});
+    }, Math.max(remaining - EXPIRY_WARNING_MS, 0));
+    const expiry = setTimeout(() => {
+        socket.emit('auth:expired', {expiredAt: new Date(expiresAt).toISOString()});
+        socket.disconnect(true);
+    }, Math.max(remaining, 0));
+
+    expiryTimers.set(socket.id, [warning, expiry]);
+}
+
+/**
+ * Handshake authentication: the access token comes from `auth.token` or the Authorization header
+ */
+export async function authenticateSocket(socket: Socket, next: (err?: ExtendedError) => void) {
+    const token = socket.handshake.auth.token || socket.handshake.headers.authorization?.split(' ')[1];
+
+    if (!token) {
+        return next(new Error('Authentication error: Token missing'));
+    }
+
+    try {
+        applyToken(socket, await tokenService.authenticateAccessToken(token));
+        next();
+    } catch (err) {
+        const revoked = (err as any)?.code === 'TOKEN_REVOKED';
+        next(new Error(revoked ? 'Authentication error: Token revoked' : 'Authentication error: Invalid token'));
+    }
+}
+
+/**
+ * Token lifecycle of live sockets: expiry and in-band refresh
+ */
+export function registerAuthWebSocketHandlers() {
+    ws.onConnection((socket: Socket) => {
+        if (!socket.data?.tokenExp) return;
+        scheduleExpiry(socket);
+        socket.on('disconnect', () => clearExpiry(socket));
+    });
+
+    const authEvents = ws.defineEvents({
+        'auth:refresh': z.object({token: z.string().min(1)}),
+    });
+
+    // Swap in a fresh access token without reconnecting
+    authEvents.on('auth:refresh', async (socket, {token}, ack) => {
+        let payload: any;
+        try {
+            payload = await tokenService.authenticateAccessToken(token);
+        } catch (err) {
+            ws.replyError(socket, 'auth:refresh', ack, {code: 'INVALID_TOKEN', message: 'Invalid or revoked token'});
+            return;
+        }
+        if (payload.sub !== socket.data.userId) {
+            ws.replyError(socket, 'auth:refresh', ack, {code: 'TOKEN_USER_MISMATCH', message: 'Token belongs to another user'});
+            return;
+        }
+
+        // a token from a new sign-in moves the socket to that session
+        const previousSessionId = socket.data.sessionId;
+        applyToken(socket, payload);
+        if (previousSessionId !== socket.data.sessionId) {
+            if (previousSessionId) await socket.leave(getSessionRoom(previousSessionId));
+            if (socket.data.sessionId) await socket.join(getSessionRoom(socket.data.sessionId));
+        }
+
+        scheduleExpiry(socket);
+        ack?.({ok: true, expiresAt: new Date(payload.exp * 1000).toISOString()});
+    });
+
+    // eslint-disable-next-line no-console
+    console.info('[websocket] Auth handlers registered');
+}
+
+/**
+ * Disconnect every live socket of a user, on every node
+ */
+export function disconnectUser(userId: string): void {
+    if (!ws.isInitialized()) return;
+    ws.disconnectRoom(ws.getUserRoom(userId), true);
+}
@@ -0,0 +1,53 @@
+import {OAuth2Client} from 'google-auth-library';
+import Config from '../../config';
+import {HttpError} from '../../errors/HttpError';
+
+export type GoogleIdentity = {
+    googleId: string;
+    email: string;
+    emailVerified: boolean;
+    name: string;
+    picture: string | null;
+};
+
+let client: OAuth2Client | null = null;
+
+function getClient() {
+    if (!client) client = new OAuth2Client(Config.GOOGLE_CLIENT_ID);
+    return client;
+}
+
+/**
+ * Replace the OAuth client, e.g. with one verifying against a stubbed key set
+ */
+export function setGoogleClient(next: OAuth2Client): void {
+    client = next;
+}
+
+/**
+ * Verify a Google ID token (signature, expiry, issuer and our client id as audience)
+ */
+export async function verifyGoogleIdToken(idToken: string): Promise<GoogleIdentity> {
+    if (!Config.GOOGLE_CLIENT_ID) {
+        throw new HttpError(503, 'GOOGLE_SIGNIN_DISABLED', 'Google sign-in is not configured');
+    }
+
+    let payload;
+    try {
+        const ticket = await getClient().verifyIdToken({idToken, audience: Config.GOOGLE_CLIENT_ID});
+        payload = ticket.getPayload();
+    } catch (err) {
+        throw new HttpError(401, 'INVALID_GOOGLE_TOKEN', 'Invalid Google ID token');
+    }
+    if (!payload?.sub || !payload.email) {
+        throw new HttpError(401, 'INVALID_GOOGLE_TOKEN', 'Google ID token has no email');
+    }
+
+    return {
+        googleId: payload.sub,
+        email: payload.email,
+        emailVerified: payload.email_verified === true,
+        name: payload.name ?? payload.email.split('@')[0],
+        picture: payload.picture ?? null,
+    };
+}
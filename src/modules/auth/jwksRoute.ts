@@ -0,0 +1,12 @@
+import {Request, Response, Router} from 'express';
+import {getJwks} from './keyStore';
+
+const router = Router();
+
+// Public verification keys in standard JWKS form (not wrapped in the API response envelope)
+router.get('/jwks.json', (_req: Request, res: Response) => {
+    res.set('Cache-Control', 'public, max-age=300');
+    res.json(getJwks());
+});
+
+export default router;
@@ -0,0 +1,111 @@
+import crypto, {KeyObject} from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import Config from '../../config';
+
+export type JwtAlgorithm = 'RS256' | 'ES256';
+
+export type JwtKey = {
+    kid: string;
+    alg: JwtAlgorithm;
+    publicKey: KeyObject;
+    // null for retired keys that only verify tokens issued before a rotation
+    privateKey: KeyObject | null;
+};
+
+let keys = new Map<string, JwtKey>();
+let activeKid: string | null = null;
+
+// jsonwebtoken signs neither EdDSA nor other curves, so such keys are refused at startup
+function algorithmFor(file: string, key: KeyObject): JwtAlgorithm {
+    if (key.asymmetricKeyType === 'rsa') return 'RS256';
+    if (key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1') return 'ES256';
+    const curve = key.asymmetricKeyDetails?.namedCurve;
+    throw new Error(`[jwt] ${file}: unsupported key type ${key.asymmetricKeyType}${curve ? ` (${curve})` : ''}, use RSA (RS256) or EC P-256 (ES256)`);
+}
+
+function parseKey(file: string, parse: () => KeyObject): KeyObject {
+    try {
+        return parse();
+    } catch (err) {
+        throw new Error(`[jwt] ${file}: not a valid PEM key (${(err as Error).message})`);
+    }
+}
+
+function readKey(dir: string, file: string): JwtKey | null {
+    if (!file.endsWith('.pem')) return null;
+    const pem = fs.readFileSync(path.join(dir, file), 'utf8');
+    if (file.endsWith('.pub.pem')) {
+        const publicKey = parseKey(file, () => crypto.createPublicKey(pem));
+        return {kid: file.slice(0, -'.pub.pem'.length), alg: algorithmFor(file, publicKey), publicKey, privateKey: null};
+    }
+    const privateKey = parseKey(file, () => crypto.createPrivateKey(pem));
+    return {kid: file.slice(0, -'.pem'.length), alg: algorithmFor(file, privateKey), publicKey: crypto.createPublicKey(privateKey), privateKey};
+}
+
+/**
+ * Load signing / verification keys from JWT_KEYS_DIR:
+ * `<kid>.pem` private keys (can sign), `<kid>.pub.pem` public keys of retired signers (verify only).
+ * JWT_ACTIVE_KID picks the signing key, by default the last private key in name order.
+ * Rotation: add the new key, switch JWT_ACTIVE_KID, keep the old one until its tokens expired.
+ */
+export function loadKeys(): void {
+    const loaded = new Map<string, JwtKey>();
+    const dir = Config.JWT_KEYS_DIR;
+
+    if (dir) {
+        fs.readdirSync(dir).sort().forEach((file) => {
+            const key = readKey(dir, file);
+            if (key) loaded.set(key.kid, key);
+        });
+    } else if (process.env.NODE_ENV === 'production') {
+        throw new Error('[jwt] JWT_KEYS_DIR not set');
+    } else {
+        // development only: tokens die with the process and are not shared between instances
+        const {privateKey, publicKey} = crypto.generateKeyPairSync('rsa', {modulusLength: 2048});
+        const kid = `dev-${crypto.randomBytes(4).toString('hex')}`;
+        loaded.set(kid, {kid, alg: 'RS256', publicKey, privateKey});
+        // eslint-disable-next-line no-console
+        console.warn(`[jwt] JWT_KEYS_DIR not set, using ephemeral key ${kid}`);
+    }
+
+    const signers = [...loaded.values()].filter((k) => k.privateKey);
+    const active = Config.JWT_ACTIVE_KID ? loaded.get(Config.JWT_ACTIVE_KID) : signers[signers.length - 1];
+    if (!active?.privateKey) {
+        throw new Error(`[jwt] no private key for active kid ${Config.JWT_ACTIVE_KID ?? '(none found)'}`);
+    }
+
+    keys = loaded;
+    activeKid = active.kid;
+    // eslint-disable-next-line no-console
+    console.info(`[jwt] loaded ${loaded.size} key(s), signing with ${activeKid}`);
+}
+
+function ensureLoaded() {
+    if (!activeKid) loadKeys();
+}
+
+export function getSigningKey(): JwtKey & { privateKey: KeyObject } {
+    ensureLoaded();
+    return keys.get(activeKid as string) as JwtKey & { privateKey: KeyObject };
+}
+
+export function getVerificationKey(kid: string): JwtKey | null {
+    ensureLoaded();
+    return keys.get(kid) ?? null;
+}
+
+/**
+ * Public keys as a JSON Web Key Set, for services verifying our tokens offline
+ */
+export function getJwks() {
+    ensureLoaded();
+    return {
+        keys: [...keys.values()].map((key) => ({
+            ...key.publicKey.export({format: 'jwk'}),
+            kid: key.kid,
+            alg: key.alg,
+            use: 'sig',
+        })),
+    };
+}
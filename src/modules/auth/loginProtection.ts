@@ -0,0 +1,211 @@
+import Config from '../../config';
+import * as redis from '../../databases/redis';
+import {getRedisClient} from '../../databases/redis';
+import * as mailer from '../../lib/mailer';
+import {hashSubject} from '../../middleware/rateLimit';
+import * as userRepo from '../user/userRepository';
+import {accountLockedEmail} from './authEmails';
+
+export type LockScope = 'account' | 'ip';
+
+export type Lockout = {
+    scope: LockScope;
+    // hashed email (account) or ip, used to lift the lock
+    subject: string;
+    // account scope: the locked user, null when no account has that email
+    user_id: string | null;
+    ip: string | null;
+    level: number;
+    locked_until: string;
+};
+
+type ScopePolicy = {
+    threshold: number;
+};
+
+const POLICIES: Record<LockScope, ScopePolicy> = {
+    account: {threshold: Config.LOGIN_LOCKOUT_ACCOUNT_THRESHOLD},
+    ip: {threshold: Config.LOGIN_LOCKOUT_IP_THRESHOLD},
+};
+
+// locked subjects by expiry (ms), for the admin overview
+const LOCKOUT_INDEX_KEY = 'login:lockouts';
+
+function failuresKey(scope: LockScope, subject: string) {
+    return `login:failures:${scope}:${subject}`;
+}
+
+function lockKey(scope: LockScope, subject: string) {
+    return `login:lock:${scope}:${subject}`;
+}
+
+// how many times the subject was locked recently; each lock lasts twice as long as the previous
+function levelKey(scope: LockScope, subject: string) {
+    return `login:lock_level:${scope}:${subject}`;
+}
+
+function lockInfoKey(scope: LockScope, subject: string) {
+    return `login:lock_info:${scope}:${subject}`;
+}
+
+// Count a failure; at the threshold lock for base * 2^(level - 1) seconds (capped) and start counting over.
+// Returns {level, duration} of the new lock, duration 0 when not locked.
+const RECORD_FAILURE_SCRIPT = `
+local failures = redis.call('INCR', KEYS[1])
+if failures == 1 then redis.call('EXPIRE', KEYS[1], tonumber(ARGV[2])) end
+if failures < tonumber(ARGV[1]) then return {0, 0} end
+redis.call('DEL', KEYS[1])
+local level = redis.call('INCR', KEYS[3])
+redis.call('EXPIRE', KEYS[3], tonumber(ARGV[5]))
+local duration = math.floor(math.min(tonumber(ARGV[3]) * 2 ^ (level - 1), tonumber(ARGV[4])))
+redis.call('SET', KEYS[2], '1', 'EX', duration)
+return {level, duration}
+`;
+
+function subjectOf(scope: LockScope, value: string) {
+    return scope === 'account' ? hashSubject(value) : value;
+}
+
+function warn(action: string, err: unknown) {
+    // eslint-disable-next-line no-console
+    console.warn(`[login] lockout ${action} failed:`, (err as Error)?.message ?? err);
+}
+
+/**
+ * Seconds left on the lock of the email or the ip, 0 when login may be attempted.
+ * Emails without an account are locked the same way, so the answer reveals nothing.
+ * Like rate limiting, fails open when Redis is unavailable.
+ */
+export async function getRetryAfter(email: string, ip: string): Promise<number> {
+    try {
+        const ttls = await Promise.all([
+            redis.ttl(lockKey('account', subjectOf('account', email))),
+            redis.ttl(lockKey('ip', ip)),
+        ]);
+        return Math.max(0, ...ttls);
+    } catch (err) {
+        warn('check', err);
+        return 0;
+    }
+}
+
+async function recordScopeFailure(scope: LockScope, subject: string): Promise<{ level: number; duration: number }> {
+    const [level, duration] = await getRedisClient().eval(RECORD_FAILURE_SCRIPT, {
+        keys: [failuresKey(scope, subject), lockKey(scope, subject), levelKey(scope, subject)],
+        arguments: [
+            String(POLICIES[scope].threshold),
+            String(Config.LOGIN_FAILURE_WINDOW_SECONDS),
+            String(Config.LOGIN_LOCKOUT_BASE_SECONDS),
+            String(Config.LOGIN_LOCKOUT_MAX_SECONDS),
+            String(Config.LOGIN_LOCKOUT_LEVEL_TTL_SECONDS),
+        ],
+    }) as [number, number];
+    return {level, duration};
+}
+
+async function indexLockout(lockout: Lockout, duration: number) {
+    const until = Date.parse(lockout.locked_until);
+    await redis.setJson(lockInfoKey(lockout.scope, lockout.subject), lockout, duration);
+    await getRedisClient().zAdd(LOCKOUT_INDEX_KEY, {score: until, value: `${lockout.scope}:${lockout.subject}`});
+}
+
+async function notifyAccountLocked(email: string, lockout: Lockout) {
+    const user = await userRepo.getUserByEmail(email);
+    if (!user) return;
+    lockout.user_id = user.id;
+    // a streak of locks sends one email, not one per escalation.
+    // Not awaited: the response time must not tell whether an email went out.
+    if (lockout.level === 1) {
+        mailer.sendMail(accountLockedEmail(user.email, user.name, lockout.locked_until, lockout.ip)).catch((err) => {
+            // eslint-disable-next-line no-console
+            console.error('[login] lock notification failed:', (err as Error)?.message ?? err);
+        });
+    }
+}
+
+/**
+ * Count a failed login against the email and the ip, locking either at its threshold.
+ * The owner of a locked account is emailed; nothing in the result depends on the account existing.
+ */
+export async function recordFailure(email: string, ip: string): Promise<void> {
+    const scopes: [LockScope, string][] = [['account', subjectOf('account', email)], ['ip', ip]];
+    await Promise.all(scopes.map(([scope, subject]) => lockOnThreshold(scope, subject, email, ip).catch((err) => warn('update', err))));
+}
+
+async function lockOnThreshold(scope: LockScope, subject: string, email: string, ip: string): Promise<void> {
+    const {level, duration} = await recordScopeFailure(scope, subject);
+    if (!duration) return;
+
+    const lockout: Lockout = {
+        scope,
+        subject,
+        user_id: null,
+        ip,
+        level,
+        locked_until: new Date(Date.now() + duration * 1000).toISOString(),
+    };
+    if (scope === 'account') await notifyAccountLocked(email, lockout);
+    await indexLockout(lockout, duration);
+    // eslint-disable-next-line no-console
+    console.warn(`[login] ${scope} ${lockout.user_id ?? subject} locked for ${duration}s (level ${level})`);
+}
+
+/**
+ * Successful login: the account starts over. The ip keeps its count, or an attacker
+ * could clear it by logging into an account of their own between guesses.
+ */
+export async function recordSuccess(email: string): Promise<void> {
+    const subject = subjectOf('account', email);
+    await Promise.all([redis.del(failuresKey('account', subject)), redis.del(levelKey('account', subject))])
+        .catch((err) => warn('reset', err));
+}
+
+/**
+ * Currently locked accounts and ips, newest expiry last
+ */
+export async function listLockouts(): Promise<Lockout[]> {
+    const client = getRedisClient();
+    await client.zRemRangeByScore(LOCKOUT_INDEX_KEY, '-inf', Date.now());
+    const members = await client.zRange(LOCKOUT_INDEX_KEY, 0, -1);
+    if (members.length === 0) return [];
+
+    const infos = await redis.mGet(members.map((member) => {
+        const at = member.indexOf(':');
+        return lockInfoKey(member.slice(0, at) as LockScope, member.slice(at + 1));
+    }));
+    return infos.filter((info): info is string => info !== null).map((info) => JSON.parse(info) as Lockout);
+}
+
+/**
+ * Lock state of one email, whether or not it has an account
+ */
+export async function getAccountLockout(email: string) {
+    const subject = subjectOf('account', email);
+    const [ttl, failures, level] = await Promise.all([
+        redis.ttl(lockKey('account', subject)),
+        redis.get(failuresKey('account', subject)),
+        redis.get(levelKey('account', subject)),
+    ]);
+    return {
+        scope: 'account' as const,
+        subject,
+        locked: ttl > 0,
+        retry_after: Math.max(0, ttl),
+        failures: Number(failures ?? 0),
+        level: Number(level ?? 0),
+    };
+}
+
+/**
+ * Lift a lock and forget its failures (admin)
+ */
+export async function unlock(scope: LockScope, subject: string): Promise<boolean> {
+    const removed = await redis.del(lockKey(scope, subject));
+    await Promise.all([
+        redis.del(failuresKey(scope, subject)),
+        redis.del(levelKey(scope, subject)),
+        redis.del(lockInfoKey(scope, subject)),
+        getRedisClient().zRem(LOCKOUT_INDEX_KEY, `${scope}:${subject}`),
+    ]);
+    return removed > 0;
+}
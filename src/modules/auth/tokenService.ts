@@ -2,60 +2,133 @@ import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
 import Config from '../../config';
 import * as refreshRepo from '../token/refreshTokenRepository';
+import {SessionDevice} from '../token/refreshTokenRepository';
 import {PoolClient} from 'pg';
+import * as redis from '../../databases/redis';
+import * as authWs from './authWebSocket';
+import * as sessionWs from '../session/sessionWebSocket';
+import {getSigningKey, getVerificationKey} from './keyStore';
 
-const ACCESS_TOKEN_EXPIRES_IN = '15m';
+const ACCESS_TOKEN_EXPIRES_IN_SECONDS = 15 * 60;
 const REFRESH_TOKEN_EXPIRES_DAYS = Number(process.env.REFRESH_TOKEN_EXPIRES_DAYS ?? 30);
 const REFRESH_ROTATE_THRESHOLD_DAYS = Number(process.env.REFRESH_ROTATE_THRESHOLD_DAYS ?? 7);
 
-function getJwtSecret() {
-    const secret = process.env.JWT_SECRET ?? Config.JWT_SECRET;
-    if (!secret) throw new Error('JWT_SECRET not set');
-    return secret;
+function signJwt(payload: object, options: jwt.SignOptions): string {
+    const key = getSigningKey();
+    return jwt.sign(payload, key.privateKey, {...options, algorithm: key.alg, keyid: key.kid, issuer: Config.JWT_ISSUER});
+}
+
+// The kid header selects the public key; tokens signed with unknown or removed keys are rejected
+function verifyJwt(token: string): any {
+    const decoded = jwt.decode(token, {complete: true});
+    const kid = decoded?.header.kid;
+    const key = kid ? getVerificationKey(kid) : null;
+    if (!key) throw new jwt.JsonWebTokenError('unknown signing key');
+    return jwt.verify(token, key.publicKey, {algorithms: [key.alg], issuer: Config.JWT_ISSUER});
 }
 
 export function signAccessToken(payload: object): string {
-    const secret = getJwtSecret();
-    return jwt.sign(payload, secret, {algorithm: 'HS256', expiresIn: ACCESS_TOKEN_EXPIRES_IN});
+    // jti lets a single access token be revoked
+    const jwtid = crypto.randomBytes(16).toString('hex');
+    return signJwt(payload, {expiresIn: ACCESS_TOKEN_EXPIRES_IN_SECONDS, jwtid});
 }
 
 export function verifyAccessToken(token: string) {
-    const secret = getJwtSecret();
-    const payload = jwt.verify(token, secret) as any;
+    const payload = verifyJwt(token);
     if (payload?.typ && payload.typ !== 'access') throw new Error('invalid_token_type');
     return payload;
 }
 
+// Revocation state lives in Redis and only needs to outlast the access tokens it rejects
+function revokedJtiKey(jti: string) {
+    return `auth:revoked:jti:${jti}`;
+}
+
+function revokedSessionKey(sessionId: string) {
+    return `auth:revoked:sid:${sessionId}`;
+}
+
+function validAfterKey(userId: string) {
+    return `auth:valid_after:${userId}`;
+}
+
+/**
+ * Verify signature and type, then check the token was not revoked since it was issued
+ */
+export async function authenticateAccessToken(token: string) {
+    const payload = verifyAccessToken(token);
+    const [jtiRevoked, sessionRevoked, validAfter] = await redis.mGet([
+        revokedJtiKey(payload.jti ?? ''),
+        revokedSessionKey(payload.sid ?? ''),
+        validAfterKey(payload.sub ?? ''),
+    ]);
+
+    // iat has second precision: tokens issued in the same second as a user-wide revocation stay valid
+    if ((payload.jti && jtiRevoked) || (payload.sid && sessionRevoked) || (validAfter && payload.iat < Number(validAfter))) {
+        const e: any = new Error('token_revoked');
+        e.code = 'TOKEN_REVOKED';
+        throw e;
+    }
+    return payload;
+}
+
+/**
+ * Reject one access token until it expires
+ */
+export async function revokeAccessToken(payload: { jti?: string; exp?: number }) {
+    if (!payload.jti || !payload.exp) return;
+    const ttl = payload.exp - Math.floor(Date.now() / 1000);
+    if (ttl > 0) await redis.set(revokedJtiKey(payload.jti), '1', ttl);
+}
+
+/**
+ * Reject every access token issued for a device session and disconnect its sockets
+ */
+export async function revokeSessionAccess(sessionId: string) {
+    await redis.set(revokedSessionKey(sessionId), '1', ACCESS_TOKEN_EXPIRES_IN_SECONDS);
+    sessionWs.disconnectSession(sessionId);
+}
+
+/**
+ * Reject every access token of a user issued until now (logout everywhere, password change,
+ * token theft) and disconnect the user's sockets
+ */
+export async function revokeUserAccess(userId: string) {
+    await redis.set(validAfterKey(userId), String(Math.floor(Date.now() / 1000)), ACCESS_TOKEN_EXPIRES_IN_SECONDS);
+    authWs.disconnectUser(userId);
+}
+
 export function signRefreshToken(userId: string): { token: string; expiresAt: Date } {
-    const secret = getJwtSecret();
     const jti = crypto.randomBytes(16).toString('hex');
     const expiresInSeconds = REFRESH_TOKEN_EXPIRES_DAYS * 24 * 60 * 60; // seconds
-    const options: jwt.SignOptions = {algorithm: 'HS256', expiresIn: expiresInSeconds};
-    const token = jwt.sign({sub: userId, typ: 'refresh', jti}, secret, options);
+    const token = signJwt({sub: userId, typ: 'refresh', jti}, {expiresIn: expiresInSeconds});
     const decoded = jwt.decode(token) as any;
     const exp = decoded?.exp ? new Date(decoded.exp * 1000) : new Date(Date.now() + REFRESH_TOKEN_EXPIRES_DAYS * 24 * 60 * 60 * 1000);
     return {token, expiresAt: exp};
 }
 
-export async function createRefreshToken(userId: string, client?: PoolClient): Promise<{
+// Without a sessionId a new device session is started
+export async function createRefreshToken(userId: string, client?: PoolClient, session: {
+    sessionId?: string;
+    device?: SessionDevice
+} = {}): Promise<{
     token: string;
-    expiresAt: Date
+    expiresAt: Date;
+    sessionId: string
 }> {
     const {token, expiresAt} = signRefreshToken(userId);
     const tokenHash = crypto.createHash('sha256').update(token).digest('hex');
-    if (client) {
-        await refreshRepo.saveRefreshTokenWithClient(client, {userId, tokenHash, expiresAt});
-    } else {
-        await refreshRepo.saveRefreshToken({userId, tokenHash, expiresAt});
-    }
-    return {token, expiresAt};
+    const row = {userId, tokenHash, expiresAt, ...session};
+    const sessionId = client
+        ? await refreshRepo.saveRefreshTokenWithClient(client, row)
+        : await refreshRepo.saveRefreshToken(row);
+    return {token, expiresAt, sessionId};
 }
 
 export function verifyRefreshJwt(token: string) {
-    const secret = getJwtSecret();
     let payload: any;
     try {
-        payload = jwt.verify(token, secret) as any;
+        payload = verifyJwt(token);
     } catch (err) {
         throw new Error('invalid_refresh_token');
     }
@@ -81,6 +154,7 @@ export async function verifyRefreshToken(token: string, client?: PoolClient) {
     if (any && any.revoked) {
         // revoke all tokens for this user to prevent further abuse
         await refreshRepo.revokeAllForUser(any.user_id);
+        await revokeUserAccess(any.user_id);
         const e: any = new Error('refresh_token_reuse_detected');
         e.code = 'REFRESH_TOKEN_REUSE';
         throw e;
@@ -95,15 +169,28 @@ export async function revokeRefreshToken(token: string, client?: PoolClient): Pr
     return refreshRepo.revokeByHash(tokenHash);
 }
 
-export async function rotateRefreshTokenIfNeeded(token: string, client?: PoolClient): Promise<{
+/**
+ * Log a device out: its refresh token and every access token of its session stop working
+ */
+export async function logout(refreshToken: string): Promise<boolean> {
+    const tokenHash = crypto.createHash('sha256').update(refreshToken).digest('hex');
+    const row = await refreshRepo.findAnyByHash(tokenHash);
+    const revoked = await refreshRepo.revokeByHash(tokenHash);
+    if (revoked && row?.session_id) await revokeSessionAccess(row.session_id);
+    return revoked;
+}
+
+export async function rotateRefreshTokenIfNeeded(token: string, client?: PoolClient, device?: SessionDevice): Promise<{
     rotated: boolean;
     token: string;
     expiresAt: Date;
-    userId: string
+    userId: string;
+    sessionId: string
 }> {
     // validate and lookup
     const {payload, row} = await verifyRefreshToken(token, client);
     const userId = payload.sub as string;
+    const sessionId = row.session_id as string;
     const expiresAt = new Date(row.expires_at);
 
     const now = Date.now();
@@ -112,16 +199,20 @@ export async function rotateRefreshTokenIfNeeded(token: string, client?: PoolCli
 
     if (remainingMs <= thresholdMs) {
         // rotate
+        // the new token continues the same device session
+        const session = {sessionId, device: {...device, deviceName: row.device_name}};
         if (client) {
             await refreshRepo.revokeByHashWithClient(client, crypto.createHash('sha256').update(token).digest('hex'));
-            const {token: newToken, expiresAt: newExpires} = await createRefreshToken(userId, client);
-            return {rotated: true, token: newToken, expiresAt: newExpires, userId};
+            const {token: newToken, expiresAt: newExpires} = await createRefreshToken(userId, client, session);
+            return {rotated: true, token: newToken, expiresAt: newExpires, userId, sessionId};
         }
         await revokeRefreshToken(token);
-        const {token: newToken, expiresAt: newExpires} = await createRefreshToken(userId);
-        return {rotated: true, token: newToken, expiresAt: newExpires, userId};
+        const {token: newToken, expiresAt: newExpires} = await createRefreshToken(userId, undefined, session);
+        return {rotated: true, token: newToken, expiresAt: newExpires, userId, sessionId};
     }
 
+    await refreshRepo.touchSession(sessionId, device);
+
     // not rotated, return existing
-    return {rotated: false, token, expiresAt, userId};
+    return {rotated: false, token, expiresAt, userId, sessionId};
 }
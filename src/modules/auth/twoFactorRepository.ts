@@ -0,0 +1,35 @@
+import {query} from '../../databases/postgres';
+import {PoolClient} from 'pg';
+
+export async function getTotpSecret(userId: string): Promise<string | null> {
+    const res = await query<{ totp_secret: string | null }>('SELECT totp_secret FROM users WHERE id = $1 AND totp_enabled_at IS NOT NULL', [userId]);
+    return res.rows[0]?.totp_secret ?? null;
+}
+
+export async function enableTotpWithClient(client: PoolClient, userId: string, encryptedSecret: string): Promise<boolean> {
+    const res = await client.query('UPDATE users SET totp_secret = $2, totp_enabled_at = current_timestamp WHERE id = $1 AND totp_enabled_at IS NULL', [userId, encryptedSecret]);
+    return (res.rowCount ?? 0) > 0;
+}
+
+export async function disableTotpWithClient(client: PoolClient, userId: string): Promise<void> {
+    await client.query('UPDATE users SET totp_secret = NULL, totp_enabled_at = NULL WHERE id = $1', [userId]);
+    await client.query('DELETE FROM user_recovery_codes WHERE user_id = $1', [userId]);
+}
+
+// Replaces any previous set of codes
+export async function replaceRecoveryCodesWithClient(client: PoolClient, userId: string, codeHashes: string[]): Promise<void> {
+    await client.query('DELETE FROM user_recovery_codes WHERE user_id = $1', [userId]);
+    await client.query(`INSERT INTO user_recovery_codes (user_id, code_hash)
+                        SELECT $1, unnest($2::varchar[])`, [userId, codeHashes]);
+}
+
+// Single UPDATE so a code can only ever be redeemed once
+export async function consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const res = await query('UPDATE user_recovery_codes SET used_at = current_timestamp WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL', [userId, codeHash]);
+    return (res.rowCount ?? 0) > 0;
+}
+
+export async function countUnusedRecoveryCodes(userId: string): Promise<number> {
+    const res = await query<{ count: string }>('SELECT count(*) FROM user_recovery_codes WHERE user_id = $1 AND used_at IS NULL', [userId]);
+    return Number(res.rows[0]?.count ?? 0);
+}
@@ -0,0 +1,191 @@
+import crypto from 'crypto';
+import Config from '../../config';
+import * as redis from '../../databases/redis';
+import {withTransaction} from '../../databases/postgres';
+import {HttpError} from '../../errors/HttpError';
+import {buildOtpAuthUri, generateSecret, verifyTotp} from '../../utils/totp';
+import * as twoFactorRepo from './twoFactorRepository';
+import * as userRepo from '../user/userRepository';
+import {SessionDevice} from '../token/refreshTokenRepository';
+import {verifyPassword} from '../user/userService';
+
+const ENROLLMENT_TTL_SECONDS = 10 * 60;
+const RECOVERY_CODE_COUNT = 10;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+// Second factor presented by the client: an authenticator code or a recovery code
+export type SecondFactor = {
+    code?: string;
+    recovery_code?: string;
+};
+
+type LoginChallenge = {
+    userId: string;
+    device?: SessionDevice;
+};
+
+function sha256(input: string) {
+    return crypto.createHash('sha256').update(input).digest('hex');
+}
+
+function enrollmentKey(userId: string) {
+    return `2fa:enroll:${userId}`;
+}
+
+function challengeKey(token: string) {
+    return `2fa:challenge:${sha256(token)}`;
+}
+
+function challengeAttemptsKey(token: string) {
+    return `2fa:challenge:attempts:${sha256(token)}`;
+}
+
+// TOTP secrets are needed in clear to check codes, so they are encrypted rather than hashed
+function encryptionKey() {
+    if (!Config.TOTP_ENCRYPTION_KEY) throw new Error('TOTP_ENCRYPTION_KEY not set');
+    return crypto.createHash('sha256').update(Config.TOTP_ENCRYPTION_KEY).digest();
+}
+
+function encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join('.');
+}
+
+function decryptSecret(encrypted: string): string {
+    const [iv, tag, ciphertext] = encrypted.split('.').map((part) => Buffer.from(part, 'base64url'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+// Recovery codes are compared case- and dash-insensitively
+function normalizeRecoveryCode(code: string) {
+    return code.replace(/[\s-]/g, '').toLowerCase();
+}
+
+function generateRecoveryCode() {
+    const raw = crypto.randomBytes(8).toString('hex').slice(0, 10);
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+}
+
+// A code is accepted once: replaying it within its validity window fails
+async function checkTotp(userId: string, secret: string, code: string): Promise<boolean> {
+    const step = verifyTotp(secret, code);
+    if (step === null) return false;
+    const fresh = await redis.getRedisClient().set(`2fa:used:${userId}:${step}`, '1', {NX: true, EX: 120});
+    return fresh === 'OK';
+}
+
+async function verifySecondFactor(userId: string, factor: SecondFactor): Promise<boolean> {
+    if (factor.recovery_code) {
+        return twoFactorRepo.consumeRecoveryCode(userId, sha256(normalizeRecoveryCode(factor.recovery_code)));
+    }
+    if (!factor.code) return false;
+
+    const encrypted = await twoFactorRepo.getTotpSecret(userId);
+    if (!encrypted) return false;
+    return checkTotp(userId, decryptSecret(encrypted), factor.code);
+}
+
+/**
+ * Start enrollment: a new secret the user adds to an authenticator app (QR of otpauth_url).
+ * Nothing changes on the account until confirmEnrollment() proves the app produces valid codes.
+ */
+export async function startEnrollment(userId: string) {
+    const user = await userRepo.getUserById(userId);
+    if (!user) throw new HttpError(404, 'NOT_FOUND', 'User not found');
+    if (user.totp_enabled_at) throw new HttpError(409, 'TWO_FACTOR_ALREADY_ENABLED', 'Two-factor authentication is already enabled');
+
+    const secret = generateSecret();
+    await redis.set(enrollmentKey(userId), secret, ENROLLMENT_TTL_SECONDS);
+    return {
+        secret,
+        otpauth_url: buildOtpAuthUri(secret, user.email, Config.TOTP_ISSUER),
+        expires_in: ENROLLMENT_TTL_SECONDS,
+    };
+}
+
+/**
+ * Turn 2FA on with the first code from the app; returns the recovery codes, shown only this once
+ */
+export async function confirmEnrollment(userId: string, code: string) {
+    const secret = await redis.get(enrollmentKey(userId));
+    if (!secret) throw new HttpError(400, 'ENROLLMENT_NOT_FOUND', 'No pending two-factor enrollment');
+    if (!(await checkTotp(userId, secret, code))) throw new HttpError(400, 'INVALID_CODE', 'Invalid authentication code');
+
+    const recoveryCodes = Array.from({length: RECOVERY_CODE_COUNT}, generateRecoveryCode);
+    await withTransaction(async (client) => {
+        const enabled = await twoFactorRepo.enableTotpWithClient(client, userId, encryptSecret(secret));
+        if (!enabled) throw new HttpError(409, 'TWO_FACTOR_ALREADY_ENABLED', 'Two-factor authentication is already enabled');
+        await twoFactorRepo.replaceRecoveryCodesWithClient(client, userId, recoveryCodes.map((c) => sha256(normalizeRecoveryCode(c))));
+    });
+    await redis.del(enrollmentKey(userId));
+
+    return {recovery_codes: recoveryCodes};
+}
+
+/**
+ * Turn 2FA off. Requires re-authentication: the current password (accounts without one skip it)
+ * and a valid code or recovery code.
+ */
+export async function disableTwoFactor(userId: string, credentials: SecondFactor & { password?: string }) {
+    const user = await userRepo.getUserById(userId);
+    if (!user) throw new HttpError(404, 'NOT_FOUND', 'User not found');
+    if (!user.totp_enabled_at) throw new HttpError(409, 'TWO_FACTOR_NOT_ENABLED', 'Two-factor authentication is not enabled');
+
+    const passwordHash = await userRepo.getPasswordHash(userId);
+    if (passwordHash && !(credentials.password && await verifyPassword(credentials.password, passwordHash))) {
+        throw new HttpError(401, 'INVALID_CREDENTIALS', 'Invalid credentials');
+    }
+    if (!(await verifySecondFactor(userId, credentials))) {
+        throw new HttpError(401, 'INVALID_CODE', 'Invalid authentication code');
+    }
+
+    await withTransaction((client) => twoFactorRepo.disableTotpWithClient(client, userId));
+}
+
+/**
+ * First login step passed: hand out a short-lived challenge instead of tokens
+ */
+export async function createLoginChallenge(userId: string, device?: SessionDevice) {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const challenge: LoginChallenge = {userId, device};
+    await redis.setJson(challengeKey(token), challenge, Config.TWO_FACTOR_CHALLENGE_TTL_SECONDS);
+    return {challenge_token: token, expires_in: Config.TWO_FACTOR_CHALLENGE_TTL_SECONDS};
+}
+
+/**
+ * Second login step: check the factor against the challenge, which can be redeemed once
+ * and survives only a few wrong attempts
+ */
+export async function completeLoginChallenge(token: string, factor: SecondFactor): Promise<LoginChallenge> {
+    const challenge = await redis.getJson<LoginChallenge>(challengeKey(token));
+    if (!challenge) throw new HttpError(401, 'INVALID_CHALLENGE', 'Login challenge is invalid or expired');
+
+    if (!(await verifySecondFactor(challenge.userId, factor))) {
+        const client = redis.getRedisClient();
+        const attempts = await client.incr(challengeAttemptsKey(token));
+        await client.expire(challengeAttemptsKey(token), Config.TWO_FACTOR_CHALLENGE_TTL_SECONDS);
+        if (attempts >= MAX_CHALLENGE_ATTEMPTS) await redis.del(challengeKey(token));
+        throw new HttpError(401, 'INVALID_CODE', 'Invalid authentication code');
+    }
+
+    // deleting decides the race between two concurrent redemptions
+    if ((await redis.del(challengeKey(token))) === 0) {
+        throw new HttpError(401, 'INVALID_CHALLENGE', 'Login challenge is invalid or expired');
+    }
+    await redis.del(challengeAttemptsKey(token));
+    return challenge;
+}
+
+export async function getStatus(userId: string) {
+    const user = await userRepo.getUserById(userId);
+    if (!user) throw new HttpError(404, 'NOT_FOUND', 'User not found');
+    return {
+        enabled: Boolean(user.totp_enabled_at),
+        enabled_at: user.totp_enabled_at ?? null,
+        recovery_codes_left: user.totp_enabled_at ? await twoFactorRepo.countUnusedRecoveryCodes(userId) : 0,
+    };
+}
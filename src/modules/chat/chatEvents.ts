@@ -0,0 +1,88 @@
+import {z} from 'zod';
+import {MessageWithDetails} from '../message/messageModel';
+
+// Client -> server events of the chat module and their payload schemas
+const ChatRefSchema = z.object({
+    chatId: z.string().uuid(),
+});
+
+const MessageRefSchema = z.object({
+    chatId: z.string().uuid(),
+    messageId: z.string().uuid(),
+});
+
+const SendMessageSchema = z.object({
+    chatId: z.string().uuid(),
+    content: z.string().min(1).max(5000).nullable().optional(),
+    type: z.enum(['text', 'image', 'file']).default('text'),
+    replyTo: z.string().uuid().nullable().optional(),
+    // object key returned by the upload slot endpoint, required for image/file messages
+    attachmentKey: z.string().min(1).max(512).nullable().optional(),
+    // client generated id, makes retries idempotent
+    clientMessageId: z.string().min(1).max(64).regex(/^[A-Za-z0-9_-]+$/).optional(),
+});
+
+const EditMessageSchema = MessageRefSchema.extend({
+    content: z.string().min(1).max(5000),
+});
+
+const DeleteMessageSchema = MessageRefSchema.extend({
+    scope: z.enum(['me', 'everyone']).default('me'),
+});
+
+const ReactionEventSchema = MessageRefSchema.extend({
+    reaction: z.string().trim().min(1).max(100),
+});
+
+const TypingSchema = z.object({
+    chatId: z.string().uuid(),
+    isTyping: z.boolean(),
+});
+
+export const chatClientEvents = {
+    'chat:join': ChatRefSchema,
+    'chat:leave': ChatRefSchema,
+    'chat:send_message': SendMessageSchema,
+    'chat:edit_message': EditMessageSchema,
+    'chat:delete_message': DeleteMessageSchema,
+    'chat:add_reaction': ReactionEventSchema,
+    'chat:remove_reaction': ReactionEventSchema,
+    // invalid typing payloads are dropped without an error
+    'chat:typing': {schema: TypingSchema, silent: true},
+    'chat:mark_read': MessageRefSchema,
+    'chat:get_online_users': ChatRefSchema,
+};
+
+export type ChatClientEvents = typeof chatClientEvents;
+
+// Events logged for replay carry their sequence number (absent if logging failed)
+type Sequenced<T> = T & { seq?: number };
+
+type ChatRef = { chatId: string; timestamp: string };
+
+// Server -> client events of the chat module and their payloads
+export type ChatServerEvents = {
+    'chat:joined': ChatRef & { messages: MessageWithDetails[]; nextCursor: string | null };
+    'chat:left': ChatRef;
+    'chat:user_joined': ChatRef & { userId: string };
+    'chat:user_left': ChatRef & { userId: string };
+    'chat:user_typing': ChatRef & { userId: string; isTyping: boolean };
+    'chat:read_updated': { chatId: string; lastReadMessageId: string | null; unreadCount: number };
+    'chat:online_users': { chatId: string; count: number; userIds: string[] };
+    'chat:new_message': Sequenced<Record<string, unknown>>;
+    'chat:message_edited': Sequenced<Record<string, unknown>>;
+    'chat:message_deleted': Sequenced<ChatRef & { messageId: string; scope: 'me' | 'everyone'; deletedBy?: string }>;
+    'chat:reactions_updated': Sequenced<ChatRef & {
+        messageId: string;
+        userId: string;
+        reaction: string;
+        action: 'added' | 'removed';
+        reactions: { reaction: string; count: number }[]
+    }>;
+    'chat:message_read': Sequenced<ChatRef & { userId: string; messageId: string }>;
+    'chat:created': Sequenced<ChatRef & { participants: string[] }>;
+    'chat:members_added': Sequenced<ChatRef & { userIds: string[]; addedBy: string }>;
+    'chat:member_removed': Sequenced<ChatRef & { userId: string; removedBy: string }>;
+    'chat:member_left': Sequenced<ChatRef & { userId: string }>;
+    'chat:member_role_changed': Sequenced<ChatRef & { userId: string; role: 'admin' | 'member'; changedBy: string }>;
+};
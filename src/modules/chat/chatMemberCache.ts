@@ -0,0 +1,82 @@
+import * as redis from '../../databases/redis';
+
+// Positive membership lookups are cached; negative results are never cached so that a member
+// added inside a still-open transaction is not locked out until the entry expires.
+const MEMBER_CACHE_TTL_SECONDS = Number(process.env.CHAT_MEMBER_CACHE_TTL_SECONDS ?? 300);
+
+// Write the entry only while the chat's generation is still the one read before the database
+// lookup; a membership change in between bumped it, so the lookup may be stale.
+const CACHE_IF_GENERATION_SCRIPT = `
+if (redis.call('GET', KEYS[2]) or '0') ~= ARGV[1] then return 0 end
+redis.call('SET', KEYS[1], '1', 'EX', ARGV[2])
+return 1`;
+
+function memberKey(chatId: string, userId: string) {
+    return `chat:member:${chatId}:${userId}`;
+}
+
+function generationKey(chatId: string) {
+    return `chat:member_generation:${chatId}`;
+}
+
+export async function getCachedMember(chatId: string, userId: string): Promise<boolean> {
+    try {
+        return (await redis.exists(memberKey(chatId, userId))) === 1;
+    } catch (err) {
+        // cache is best-effort, fall back to the database
+        // eslint-disable-next-line no-console
+        console.warn('[chat] member cache read failed:', (err as Error).message);
+        return false;
+    }
+}
+
+/**
+ * Current membership generation of a chat, read before looking the member up in the database.
+ * Null when Redis is unavailable; nothing is cached then.
+ */
+export async function getGeneration(chatId: string): Promise<string | null> {
+    try {
+        return (await redis.get(generationKey(chatId))) ?? '0';
+    } catch (err) {
+        // eslint-disable-next-line no-console
+        console.warn('[chat] member cache read failed:', (err as Error).message);
+        return null;
+    }
+}
+
+export async function cacheMember(chatId: string, userId: string, generation: string | null): Promise<void> {
+    if (generation === null) return;
+    try {
+        await redis.getRedisClient().eval(CACHE_IF_GENERATION_SCRIPT, {
+            keys: [memberKey(chatId, userId), generationKey(chatId)],
+            arguments: [generation, String(MEMBER_CACHE_TTL_SECONDS)],
+        });
+    } catch (err) {
+        // eslint-disable-next-line no-console
+        console.warn('[chat] member cache write failed:', (err as Error).message);
+    }
+}
+
+/**
+ * Drop cached entries after a committed membership change. The generation bump keeps lookups
+ * that started before the commit from writing the old membership back.
+ */
+export async function invalidateMembers(chatId: string, userIds: string[]): Promise<void> {
+    try {
+        const generation = generationKey(chatId);
+        await redis.getRedisClient().incr(generation);
+        // only has to outlive lookups in flight
+        await redis.expire(generation, MEMBER_CACHE_TTL_SECONDS);
+    } catch (err) {
+        // eslint-disable-next-line no-console
+        console.warn('[chat] member cache invalidation failed:', (err as Error).message);
+    }
+    for (const userId of userIds) {
+        try {
+            await redis.del(memberKey(chatId, userId));
+        } catch (err) {
+            // eslint-disable-next-line no-console
+            console.warn('[chat] member cache invalidation failed:', (err as Error).message);
+        }
+    }
+}
@@ -27,3 +27,56 @@ export const ChatMemberSchema = z.object({
 });
 export type ChatMember = z.infer<typeof ChatMemberSchema>;
 
+
+export type ChatMemberWithUser = ChatMember & {
+    handle: string;
+    name: string;
+    avatar: string | null;
+};
+
+export const AddMembersSchema = z.object({
+    user_ids: z.array(z.string().uuid()).min(1).max(100),
+});
+export type AddMembersInput = z.infer<typeof AddMembersSchema>;
+
+export const LeaveChatSchema = z.object({
+    // required when the last admin leaves a group that still has members
+    transfer_to: z.string().uuid().optional().nullable(),
+});
+export type LeaveChatInput = z.infer<typeof LeaveChatSchema>;
+
+export const ChatListQuerySchema = z.object({
+    cursor: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(30),
+});
+export type ChatListQuery = z.infer<typeof ChatListQuerySchema>;
+
+export type ChatSummary = ChatRow & {
+    role: ChatMember['role'];
+    last_read_message_id: string | null;
+    last_message: {
+        id: string;
+        sender_id: string | null;
+        content: string | null;
+        type: 'text' | 'image' | 'file';
+        created_at: string;
+    } | null;
+    unread_count: number;
+    // private chats only
+    other_user: {
+        id: string;
+        handle: string;
+        name: string;
+        avatar: string | null;
+        status: 'online' | 'offline' | 'away';
+        last_seen: string | null;
+    } | null;
+    // group chats only
+    member_count: number | null;
+    activity_at: string;
+};
+
+export type ChatListPage = {
+    items: ChatSummary[];
+    next_cursor: string | null;
+};
@@ -1,6 +1,9 @@
 import {query} from '../../databases/postgres';
+import {HttpError} from '../../errors/HttpError';
 import {PoolClient} from 'pg';
-import {ChatRow} from './chatModel';
+import {ChatMember, ChatMemberWithUser, ChatRow, ChatSummary} from './chatModel';
+import {KeysetCursor} from '../../utils/cursor';
+import {UNREAD_COUNT_EXPR} from '../readReceipt/readReceiptRepository';
 
 export async function createChatWithClient(client: PoolClient, type: string, title: string | null, createdBy: string | null) {
     const res = await client.query<ChatRow>('INSERT INTO chats (type, title, created_by) VALUES ($1, $2, $3) RETURNING id, type, title, created_by, created_at', [type, title, createdBy]);
@@ -31,7 +34,149 @@ export async function listChatsForUser(userId: string) {
     return res.rows;
 }
 
+export async function listMembershipsForUser(userId: string) {
+    const res = await query<Pick<ChatMember, 'chat_id' | 'joined_at'>>('SELECT chat_id, joined_at FROM chat_members WHERE user_id = $1', [userId]);
+    return res.rows;
+}
+
+// Sidebar listing: latest visible message, unread count and counterpart/member info, ordered by
+// latest activity and keyset paginated on (activity_at, id). The cursor's created_at holds activity_at.
+export async function listChatSummariesForUser(userId: string, opts: {
+    before?: KeysetCursor | null;
+    limit: number
+}): Promise<(ChatSummary & { cursor_activity_at: string })[]> {
+    const params: any[] = [userId];
+    let cursorClause = '';
+    if (opts.before) {
+        params.push(opts.before.created_at, opts.before.id);
+        cursorClause = 'WHERE (s.activity_at, s.id) < ($2::timestamptz, $3::uuid)';
+    }
+    params.push(opts.limit);
+
+    const res = await query<ChatSummary & { cursor_activity_at: string }>(`
+        SELECT s.*, to_char(s.activity_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS cursor_activity_at
+        FROM (SELECT c.id,
+                     c.type,
+                     c.title,
+                     c.created_by,
+                     c.created_at,
+                     cm.role,
+                     cm.last_read_message_id,
+                     CASE
+                         WHEN lm.id IS NULL THEN NULL
+                         ELSE json_build_object('id', lm.id, 'sender_id', lm.sender_id, 'content', left(lm.content, 200), 'type', lm.type, 'created_at', lm.created_at)
+                         END                              AS last_message,
+                     ${UNREAD_COUNT_EXPR}                 AS unread_count,
+                     CASE
+                         WHEN c.type = 'private' THEN (SELECT json_build_object('id', u.id, 'handle', u.handle, 'name', u.name, 'avatar', u.avatar, 'status', u.status, 'last_seen', u.last_seen)
+                                                       FROM chat_members om
+                                                                JOIN users u ON u.id = om.user_id
+                                                       WHERE om.chat_id = c.id
+                                                         AND om.user_id <> cm.user_id
+                                                       LIMIT 1)
+                         END                              AS other_user,
+                     CASE
+                         WHEN c.type = 'group' THEN (SELECT count(*)::int FROM chat_members gm WHERE gm.chat_id = c.id)
+                         END                              AS member_count,
+                     COALESCE(lm.created_at, c.created_at) AS activity_at
+              FROM chat_members cm
+                       JOIN chats c ON c.id = cm.chat_id
+                       LEFT JOIN messages lr ON lr.id = cm.last_read_message_id
+                       LEFT JOIN LATERAL (SELECT m.id, m.sender_id, m.content, m.type, m.created_at
+                                          FROM messages m
+                                          WHERE m.chat_id = c.id
+                                            AND m.deleted_at IS NULL
+                                            AND NOT EXISTS (SELECT 1 FROM message_hidden h WHERE h.message_id = m.id AND h.user_id = cm.user_id)
+                                          ORDER BY m.created_at DESC, m.id DESC
+                                          LIMIT 1) lm ON true
+              WHERE cm.user_id = $1) s
+            ${cursorClause}
+        ORDER BY s.activity_at DESC, s.id DESC
+        LIMIT $${params.length}`, params);
+    return res.rows;
+}
+
 export async function hasPrivateChatBetween(userA: string, userB: string): Promise<boolean> {
     const res = await query('SELECT 1 FROM chats c JOIN chat_members cm1 ON c.id = cm1.chat_id JOIN chat_members cm2 ON c.id = cm2.chat_id WHERE c.type = $1 AND cm1.user_id = $2 AND cm2.user_id = $3 LIMIT 1', ['private', userA, userB]);
     return res.rows.length > 0;
 }
+
+export async function isMember(chatId: string, userId: string): Promise<boolean> {
+    const res = await query('SELECT 1 FROM chat_members WHERE chat_id = $1 AND user_id = $2 LIMIT 1', [chatId, userId]);
+    return res.rows.length > 0;
+}
+
+// Lock the chat row so concurrent membership changes of the same chat are serialized
+export async function lockChatWithClient(client: PoolClient, chatId: string): Promise<ChatRow | null> {
+    const res = await client.query<ChatRow>('SELECT id, type, title, created_by, created_at FROM chats WHERE id = $1 FOR UPDATE', [chatId]);
+    return res.rows[0] ?? null;
+}
+
+export async function getMember(chatId: string, userId: string): Promise<ChatMember | null> {
+    const res = await query<ChatMember>('SELECT id, chat_id, user_id, role, joined_at, last_read_message_id FROM chat_members WHERE chat_id = $1 AND user_id = $2', [chatId, userId]);
+    return res.rows[0] ?? null;
+}
+
+export async function getMemberWithClient(client: PoolClient, chatId: string, userId: string): Promise<ChatMember | null> {
+    const res = await client.query<ChatMember>('SELECT id, chat_id, user_id, role, joined_at, last_read_message_id FROM chat_members WHERE chat_id = $1 AND user_id = $2', [chatId, userId]);
+    return res.rows[0] ?? null;
+}
+
+export async function listMembers(chatId: string): Promise<ChatMemberWithUser[]> {
+    const res = await query<ChatMemberWithUser>(`SELECT m.id, m.chat_id, m.user_id, m.role, m.joined_at, m.last_read_message_id, u.handle, u.name, u.avatar
+                                                 FROM chat_members m
+                                                          JOIN users u ON u.id = m.user_id
+                                                 WHERE m.chat_id = $1
+                                                 ORDER BY m.joined_at ASC`, [chatId]);
+    return res.rows;
+}
+
+export async function countMembersWithClient(client: PoolClient, chatId: string, role?: ChatMember['role']): Promise<number> {
+    const res = role
+        ? await client.query<{ count: string }>('SELECT count(*) FROM chat_members WHERE chat_id = $1 AND role = $2', [chatId, role])
+        : await client.query<{ count: string }>('SELECT count(*) FROM chat_members WHERE chat_id = $1', [chatId]);
+    return Number(res.rows[0]?.count ?? 0);
+}
+
+// Insert members that are not in the chat yet, returns the user ids actually added
+export async function addMissingMembersWithClient(client: PoolClient, chatId: string, userIds: string[], role: ChatMember['role'] = 'member'): Promise<string[]> {
+    const added: string[] = [];
+    try {
+        for (const userId of userIds) {
+            const res = await client.query<{ user_id: string }>('INSERT INTO chat_members (chat_id, user_id, role) VALUES ($1, $2, $3) ON CONFLICT (chat_id, user_id) DO NOTHING RETURNING user_id', [chatId, userId, role]);
+            if (res.rows[0]) added.push(res.rows[0].user_id);
+        }
+    } catch (err: any) {
+        // foreign key violation: unknown user id
+        if (err?.code === '23503') {
+            throw new HttpError(404, 'USER_NOT_FOUND', 'One or more users not found');
+        }
+        throw err;
+    }
+    return added;
+}
+
+export async function removeMemberWithClient(client: PoolClient, chatId: string, userId: string): Promise<boolean> {
+    const res = await client.query('DELETE FROM chat_members WHERE chat_id = $1 AND user_id = $2', [chatId, userId]);
+    return (res.rowCount ?? 0) > 0;
+}
+
+export async function updateMemberRoleWithClient(client: PoolClient, chatId: string, userId: string, role: ChatMember['role']): Promise<ChatMember | null> {
+    const res = await client.query<ChatMember>('UPDATE chat_members SET role = $1 WHERE chat_id = $2 AND user_id = $3 RETURNING id, chat_id, user_id, role, joined_at, last_read_message_id', [role, chatId, userId]);
+    return res.rows[0] ?? null;
+}
+
+// Everybody sharing at least one chat with the user
+export async function listChatPartnerIds(userId: string): Promise<string[]> {
+    const res = await query<{ user_id: string }>(`SELECT DISTINCT other.user_id
+                                                  FROM chat_members mine
+                                                           JOIN chat_members other ON other.chat_id = mine.chat_id
+                                                  WHERE mine.user_id = $1
+                                                    AND other.user_id <> $1`, [userId]);
+    return res.rows.map((r) => r.user_id);
+}
+
+export async function listMemberIds(chatId: string): Promise<string[]> {
+    const res = await query<{ user_id: string }>('SELECT user_id FROM chat_members WHERE chat_id = $1', [chatId]);
+    return res.rows.map((r) => r.user_id);
+}
@@ -2,9 +2,18 @@ import {Request, Response, Router} from 'express';
 import {asyncHandler} from '../../middleware/asyncHandler';
 import {sendError, sendSuccess} from '../../utils/response';
 import * as service from './chatService';
-import {ChatCreateSchema} from './chatModel';
+import {AddMembersSchema, ChatCreateSchema, ChatListQuerySchema, LeaveChatSchema} from './chatModel';
 import {z} from 'zod';
 import {authenticate} from '../../middleware/auth';
+import {rateLimit} from '../../middleware/rateLimit';
+import * as messageService from '../message/messageService';
+import {MessageDeleteScopeSchema, MessageEditSchema, MessageListQuerySchema} from '../message/messageModel';
+import * as reactionService from '../reaction/reactionService';
+import {ReactionSchema, ReactionUsersQuerySchema} from '../reaction/reactionModel';
+import * as readReceiptService from '../readReceipt/readReceiptService';
+import {MarkReadSchema} from '../readReceipt/readReceiptModel';
+import * as attachmentService from '../attachment/attachmentService';
+import {UploadRequestSchema} from '../attachment/attachmentModel';
 
 const router = Router();
 
@@ -19,6 +28,13 @@ router.post('/', authenticate, asyncHandler(async (req: Request, res: Response)
     return sendSuccess(res, chat, 'chat_created', 201);
 }));
 
+router.get('/unread', authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+    const counts = await readReceiptService.getUnreadCounts(authId);
+    return sendSuccess(res, counts, 'unread_counts');
+}));
+
 router.get('/:id', authenticate, asyncHandler(async (req: Request, res: Response) => {
     const id = req.params.id;
     const ok = z.string().uuid().safeParse(id);
@@ -27,6 +43,247 @@ router.get('/:id', authenticate, asyncHandler(async (req: Request, res: Response
     return sendSuccess(res, chat, 'chat_found');
 }));
 
+router.get('/:id/messages', authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id;
+    const ok = z.string().uuid().safeParse(id);
+    if (!ok.success) return sendError(res, 400, 'invalid_id');
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+
+    const parse = MessageListQuerySchema.safeParse(req.query);
+    if (!parse.success) return sendError(res, 400, 'validation_error', parse.error.flatten().fieldErrors);
+
+    const page = await messageService.listMessages(id, authId, parse.data);
+    return sendSuccess(res, page, 'messages_list');
+}));
+
+router.patch('/:id/messages/:messageId', authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const {id, messageId} = req.params;
+    const ok = z.string().uuid().safeParse(id);
+    if (!ok.success) return sendError(res, 400, 'invalid_id');
+    const messageOk = z.string().uuid().safeParse(messageId);
+    if (!messageOk.success) return sendError(res, 400, 'invalid_message_id');
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+
+    const parse = MessageEditSchema.safeParse(req.body ?? {});
+    if (!parse.success) return sendError(res, 400, 'validation_error', parse.error.flatten().fieldErrors);
+
+    const message = await messageService.editMessage(id, messageId, authId, parse.data.content);
+    return sendSuccess(res, message, 'message_edited');
+}));
+
+router.get('/:id/messages/:messageId/edits', authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const {id, messageId} = req.params;
+    const ok = z.string().uuid().safeParse(id);
+    if (!ok.success) return sendError(res, 400, 'invalid_id');
+    const messageOk = z.string().uuid().safeParse(messageId);
+    if (!messageOk.success) return sendError(res, 400, 'invalid_message_id');
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+
+    const edits = await messageService.listMessageEdits(id, messageId, authId);
+    return sendSuccess(res, edits, 'message_edits');
+}));
+
+router.delete('/:id/messages/:messageId', authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const {id, messageId} = req.params;
+    const ok = z.string().uuid().safeParse(id);
+    if (!ok.success) return sendError(res, 400, 'invalid_id');
+    const messageOk = z.string().uuid().safeParse(messageId);
+    if (!messageOk.success) return sendError(res, 400, 'invalid_message_id');
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+
+    // scope=me hides the message for the caller, scope=everyone unsends it
+    const scope = MessageDeleteScopeSchema.safeParse(req.query.scope ?? 'me');
+    if (!scope.success) return sendError(res, 400, 'invalid_scope');
+
+    const result = await messageService.deleteMessage(id, messageId, authId, scope.data);
+    return sendSuccess(res, result, 'message_deleted');
+}));
+
+router.post('/:id/messages/:messageId/reactions', authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const {id, messageId} = req.params;
+    const ok = z.string().uuid().safeParse(id);
+    if (!ok.success) return sendError(res, 400, 'invalid_id');
+    const messageOk = z.string().uuid().safeParse(messageId);
+    if (!messageOk.success) return sendError(res, 400, 'invalid_message_id');
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+
+    const parse = ReactionSchema.safeParse(req.body ?? {});
+    if (!parse.success) return sendError(res, 400, 'validation_error', parse.error.flatten().fieldErrors);
+
+    const result = await reactionService.addReaction(id, messageId, authId, parse.data.reaction);
+    return sendSuccess(res, result, 'reaction_added', 201);
+}));
+
+router.delete('/:id/messages/:messageId/reactions/:reaction', authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const {id, messageId} = req.params;
+    const ok = z.string().uuid().safeParse(id);
+    if (!ok.success) return sendError(res, 400, 'invalid_id');
+    const messageOk = z.string().uuid().safeParse(messageId);
+    if (!messageOk.success) return sendError(res, 400, 'invalid_message_id');
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+
+    const parse = ReactionSchema.safeParse({reaction: req.params.reaction});
+    if (!parse.success) return sendError(res, 400, 'validation_error', parse.error.flatten().fieldErrors);
+
+    const result = await reactionService.removeReaction(id, messageId, authId, parse.data.reaction);
+    return sendSuccess(res, result, 'reaction_removed');
+}));
+
+router.get('/:id/messages/:messageId/reactions/:reaction/users', authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const {id, messageId} = req.params;
+    const ok = z.string().uuid().safeParse(id);
+    if (!ok.success) return sendError(res, 400, 'invalid_id');
+    const messageOk = z.string().uuid().safeParse(messageId);
+    if (!messageOk.success) return sendError(res, 400, 'invalid_message_id');
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+
+    const reaction = ReactionSchema.safeParse({reaction: req.params.reaction});
+    if (!reaction.success) return sendError(res, 400, 'validation_error', reaction.error.flatten().fieldErrors);
+    const parse = ReactionUsersQuerySchema.safeParse(req.query);
+    if (!parse.success) return sendError(res, 400, 'validation_error', parse.error.flatten().fieldErrors);
+
+    const page = await reactionService.listReactionUsers(id, messageId, authId, reaction.data.reaction, parse.data);
+    return sendSuccess(res, page, 'reaction_users');
+}));
+
+router.post('/:id/read', authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id;
+    const ok = z.string().uuid().safeParse(id);
+    if (!ok.success) return sendError(res, 400, 'invalid_id');
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+
+    const parse = MarkReadSchema.safeParse(req.body ?? {});
+    if (!parse.success) return sendError(res, 400, 'validation_error', parse.error.flatten().fieldErrors);
+
+    const result = await readReceiptService.markRead(id, authId, parse.data.message_id);
+    return sendSuccess(res, result, 'read_updated');
+}));
+
+router.get('/:id/messages/:messageId/reads', authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const {id, messageId} = req.params;
+    const ok = z.string().uuid().safeParse(id);
+    if (!ok.success) return sendError(res, 400, 'invalid_id');
+    const messageOk = z.string().uuid().safeParse(messageId);
+    if (!messageOk.success) return sendError(res, 400, 'invalid_message_id');
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+
+    const readers = await readReceiptService.listReaders(id, messageId, authId);
+    return sendSuccess(res, readers, 'message_readers');
+}));
+
+router.post('/:id/attachments/upload-url', authenticate, rateLimit({name: 'attachments:upload', limit: 30, windowSeconds: 60}), asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id;
+    const ok = z.string().uuid().safeParse(id);
+    if (!ok.success) return sendError(res, 400, 'invalid_id');
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+
+    const parse = UploadRequestSchema.safeParse(req.body ?? {});
+    if (!parse.success) return sendError(res, 400, 'validation_error', parse.error.flatten().fieldErrors);
+
+    const slot = await attachmentService.requestUpload(id, authId, parse.data);
+    return sendSuccess(res, slot, 'upload_slot_created', 201);
+}));
+
+router.get('/:id/attachments/:attachmentId', authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const {id, attachmentId} = req.params;
+    const ok = z.string().uuid().safeParse(id);
+    if (!ok.success) return sendError(res, 400, 'invalid_id');
+    const attachmentOk = z.string().uuid().safeParse(attachmentId);
+    if (!attachmentOk.success) return sendError(res, 400, 'invalid_attachment_id');
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+
+    const download = await attachmentService.getDownloadUrl(id, attachmentId, authId);
+    return sendSuccess(res, download, 'attachment_url');
+}));
+
+router.get('/:id/members', authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id;
+    const ok = z.string().uuid().safeParse(id);
+    if (!ok.success) return sendError(res, 400, 'invalid_id');
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+    const members = await service.listMembers(id, authId);
+    return sendSuccess(res, members, 'members_list');
+}));
+
+router.post('/:id/members', authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id;
+    const ok = z.string().uuid().safeParse(id);
+    if (!ok.success) return sendError(res, 400, 'invalid_id');
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+
+    const parse = AddMembersSchema.safeParse(req.body ?? {});
+    if (!parse.success) return sendError(res, 400, 'validation_error', parse.error.flatten().fieldErrors);
+
+    const result = await service.addMembers(id, authId, parse.data.user_ids);
+    return sendSuccess(res, result, 'members_added', 201);
+}));
+
+router.post('/:id/members/leave', authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const id = req.params.id;
+    const ok = z.string().uuid().safeParse(id);
+    if (!ok.success) return sendError(res, 400, 'invalid_id');
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+
+    const parse = LeaveChatSchema.safeParse(req.body ?? {});
+    if (!parse.success) return sendError(res, 400, 'validation_error', parse.error.flatten().fieldErrors);
+
+    const result = await service.leaveChat(id, authId, parse.data.transfer_to ?? null);
+    return sendSuccess(res, result, 'chat_left');
+}));
+
+router.delete('/:id/members/:userId', authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const {id, userId} = req.params;
+    const ok = z.string().uuid().safeParse(id);
+    if (!ok.success) return sendError(res, 400, 'invalid_id');
+    const userOk = z.string().uuid().safeParse(userId);
+    if (!userOk.success) return sendError(res, 400, 'invalid_user_id');
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+
+    const result = await service.removeMember(id, authId, userId);
+    return sendSuccess(res, result, 'member_removed');
+}));
+
+router.post('/:id/members/:userId/promote', authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const {id, userId} = req.params;
+    const ok = z.string().uuid().safeParse(id);
+    if (!ok.success) return sendError(res, 400, 'invalid_id');
+    const userOk = z.string().uuid().safeParse(userId);
+    if (!userOk.success) return sendError(res, 400, 'invalid_user_id');
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+
+    const member = await service.setMemberRole(id, authId, userId, 'admin');
+    return sendSuccess(res, member, 'member_promoted');
+}));
+
+router.post('/:id/members/:userId/demote', authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const {id, userId} = req.params;
+    const ok = z.string().uuid().safeParse(id);
+    if (!ok.success) return sendError(res, 400, 'invalid_id');
+    const userOk = z.string().uuid().safeParse(userId);
+    if (!userOk.success) return sendError(res, 400, 'invalid_user_id');
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+
+    const member = await service.setMemberRole(id, authId, userId, 'member');
+    return sendSuccess(res, member, 'member_demoted');
+}));
+
 router.get('/user/:userId', authenticate, asyncHandler(async (req: Request, res: Response) => {
     const userId = req.params.userId;
     const ok = z.string().uuid().safeParse(userId);
@@ -35,8 +292,12 @@ router.get('/user/:userId', authenticate, asyncHandler(async (req: Request, res:
     if (!authId) return sendError(res, 401, 'missing_user');
     // only allow if authenticated user matches the requested user
     if (authId !== userId) return sendError(res, 403, 'forbidden');
-    const list = await service.listUserChats(userId);
-    return sendSuccess(res, list, 'chats_list');
+
+    const parse = ChatListQuerySchema.safeParse(req.query);
+    if (!parse.success) return sendError(res, 400, 'validation_error', parse.error.flatten().fieldErrors);
+
+    const page = await service.listUserChats(userId, parse.data);
+    return sendSuccess(res, page, 'chats_list');
 }));
 
 export default router;
@@ -1,17 +1,30 @@
 import * as repo from './chatRepository';
 import {executeInTransaction} from '../../databases/postgres';
-import {ChatCreateInput} from './chatModel';
+import {ChatCreateInput, ChatListPage, ChatListQuery, ChatMember, ChatRow} from './chatModel';
+import {PoolClient} from 'pg';
+import * as chatWs from './chatWebSocket';
+import {decodeCursor, encodeCursor} from '../../utils/cursor';
 import {HttpError} from '../../errors/HttpError';
+import * as memberCache from './chatMemberCache';
 
 export async function createChat(input: ChatCreateInput) {
     const {type, title, created_by, member_ids} = input;
     if (!member_ids || member_ids.length === 0) throw new HttpError(400, 'INVALID_INPUT', 'member_ids required');
 
-    return await executeInTransaction(async (client) => {
+    const chat = await executeInTransaction(async (client) => {
         const chat = await repo.createChatWithClient(client, type, title ?? null, created_by ?? null);
-        await repo.addMembersWithClient(client, chat.id, member_ids, 'member');
+        // creator owns the chat as admin, everybody else joins as member
+        const memberIds = Array.from(new Set(member_ids)).filter((id) => id !== created_by);
+        if (created_by) await repo.addMemberWithClient(client, chat.id, created_by, 'admin');
+        await repo.addMembersWithClient(client, chat.id, memberIds, 'member');
         return chat;
     });
+
+    const participants = Array.from(new Set([...(created_by ? [created_by] : []), ...member_ids]));
+    // membership cache is only touched once the transaction committed
+    await memberCache.invalidateMembers(chat.id, participants);
+    chatWs.notifyChatCreated(chat.id, participants);
+    return chat;
 }
 
 export async function getChat(chatId: string) {
@@ -20,7 +33,133 @@ export async function getChat(chatId: string) {
     return chat;
 }
 
-export async function listUserChats(userId: string) {
-    return await repo.listChatsForUser(userId);
+export async function listUserChats(userId: string, opts: Partial<ChatListQuery> = {}): Promise<ChatListPage> {
+    const limit = opts.limit ?? 30;
+    const before = opts.cursor ? decodeCursor(opts.cursor) : null;
+
+    const rows = await repo.listChatSummariesForUser(userId, {before, limit: limit + 1});
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+        items: page.map(({cursor_activity_at: _c, ...item}) => item),
+        next_cursor: rows.length > limit && last ? encodeCursor({created_at: last.cursor_activity_at, id: last.id}) : null,
+    };
+}
+
+
+export async function isUserMember(chatId: string, userId: string): Promise<boolean> {
+    if (!chatId || !userId) return false;
+    if (await memberCache.getCachedMember(chatId, userId)) return true;
+
+    // read before the lookup, so a removal committed meanwhile keeps the result out of the cache
+    const generation = await memberCache.getGeneration(chatId);
+    const isMember = await repo.isMember(chatId, userId);
+    if (isMember) await memberCache.cacheMember(chatId, userId, generation);
+    return isMember;
+}
+
+export async function assertChatMember(chatId: string, userId: string): Promise<void> {
+    const isMember = await isUserMember(chatId, userId);
+    if (!isMember) throw new HttpError(403, 'NOT_CHAT_MEMBER', 'User is not a member of this chat');
 }
 
+export async function listMembers(chatId: string, actorId: string) {
+    await assertChatMember(chatId, actorId);
+    return await repo.listMembers(chatId);
+}
+
+// Load and lock a group chat and the acting member inside a membership transaction
+async function loadGroupForUpdate(client: PoolClient, chatId: string, actorId: string): Promise<{
+    chat: ChatRow;
+    actor: ChatMember
+}> {
+    const chat = await repo.lockChatWithClient(client, chatId);
+    if (!chat) throw new HttpError(404, 'CHAT_NOT_FOUND', 'Chat not found');
+    if (chat.type !== 'group') throw new HttpError(400, 'NOT_GROUP_CHAT', 'Members can only be managed in group chats');
+    const actor = await repo.getMemberWithClient(client, chatId, actorId);
+    if (!actor) throw new HttpError(403, 'NOT_CHAT_MEMBER', 'User is not a member of this chat');
+    return {chat, actor};
+}
+
+function requireAdmin(actor: ChatMember) {
+    if (actor.role !== 'admin') throw new HttpError(403, 'NOT_CHAT_ADMIN', 'Only chat admins can do this');
+}
+
+export async function addMembers(chatId: string, actorId: string, userIds: string[]) {
+    const added = await executeInTransaction(async (client) => {
+        const {actor} = await loadGroupForUpdate(client, chatId, actorId);
+        requireAdmin(actor);
+        return await repo.addMissingMembersWithClient(client, chatId, Array.from(new Set(userIds)), 'member');
+    });
+    await memberCache.invalidateMembers(chatId, added);
+
+    if (added.length > 0) chatWs.notifyMembersAdded(chatId, added, actorId);
+    return {chat_id: chatId, added};
+}
+
+export async function removeMember(chatId: string, actorId: string, targetId: string) {
+    if (actorId === targetId) throw new HttpError(400, 'USE_LEAVE', 'Use leave to remove yourself from a chat');
+
+    await executeInTransaction(async (client) => {
+        const {actor} = await loadGroupForUpdate(client, chatId, actorId);
+        requireAdmin(actor);
+        const removed = await repo.removeMemberWithClient(client, chatId, targetId);
+        if (!removed) throw new HttpError(404, 'MEMBER_NOT_FOUND', 'User is not a member of this chat');
+    });
+    // after the commit; bumps the generation so lookups still in flight do not cache the old membership
+    await memberCache.invalidateMembers(chatId, [targetId]);
+
+    chatWs.notifyMemberRemoved(chatId, targetId, actorId);
+    return {chat_id: chatId, user_id: targetId};
+}
+
+export async function leaveChat(chatId: string, userId: string, transferTo?: string | null) {
+    const promoted = await executeInTransaction(async (client) => {
+        const {actor} = await loadGroupForUpdate(client, chatId, userId);
+
+        let newAdmin: string | null = null;
+        if (transferTo) {
+            requireAdmin(actor);
+            if (transferTo === userId) throw new HttpError(400, 'INVALID_TRANSFER', 'Cannot transfer ownership to yourself');
+            const target = await repo.updateMemberRoleWithClient(client, chatId, transferTo, 'admin');
+            if (!target) throw new HttpError(404, 'MEMBER_NOT_FOUND', 'Transfer target is not a member of this chat');
+            newAdmin = transferTo;
+        } else if (actor.role === 'admin') {
+            const admins = await repo.countMembersWithClient(client, chatId, 'admin');
+            const members = await repo.countMembersWithClient(client, chatId);
+            if (admins <= 1 && members > 1) {
+                throw new HttpError(409, 'LAST_ADMIN_CANNOT_LEAVE', 'Hand over ownership with transfer_to before leaving');
+            }
+        }
+
+        await repo.removeMemberWithClient(client, chatId, userId);
+        return newAdmin;
+    });
+    await memberCache.invalidateMembers(chatId, [userId]);
+
+    if (promoted) chatWs.notifyMemberRoleChanged(chatId, promoted, 'admin', userId);
+    chatWs.notifyMemberLeft(chatId, userId);
+    return {chat_id: chatId, user_id: userId, transferred_to: promoted};
+}
+
+export async function setMemberRole(chatId: string, actorId: string, targetId: string, role: ChatMember['role']) {
+    const updated = await executeInTransaction(async (client) => {
+        const {actor} = await loadGroupForUpdate(client, chatId, actorId);
+        requireAdmin(actor);
+
+        const target = await repo.getMemberWithClient(client, chatId, targetId);
+        if (!target) throw new HttpError(404, 'MEMBER_NOT_FOUND', 'User is not a member of this chat');
+        if (target.role === role) return {member: target, changed: false};
+
+        if (role === 'member') {
+            const admins = await repo.countMembersWithClient(client, chatId, 'admin');
+            if (admins <= 1) throw new HttpError(409, 'LAST_ADMIN', 'A group must keep at least one admin');
+        }
+        const member = await repo.updateMemberRoleWithClient(client, chatId, targetId, role);
+        return {member, changed: true};
+    });
+
+    if (updated.changed) chatWs.notifyMemberRoleChanged(chatId, targetId, role, actorId);
+    return updated.member;
+}
@@ -1,79 +1,83 @@
 import * as ws from '../../lib/websocket';
-import {Socket} from 'socket.io';
-import {z} from 'zod';
-
-// Type definitions
-type JoinChatPayload = {
-    chatId: string;
-};
-
-type SendMessagePayload = {
-    chatId: string;
-    content: string;
+import * as messageService from '../message/messageService';
+import * as chatService from './chatService';
+import * as reactionService from '../reaction/reactionService';
+import * as readReceiptService from '../readReceipt/readReceiptService';
+import * as presenceService from '../presence/presenceService';
+import * as chatRepo from './chatRepository';
+import * as syncService from '../sync/syncService';
+import {socketRateLimit} from '../../middleware/rateLimit';
+import {ChatClientEvents, chatClientEvents, ChatServerEvents} from './chatEvents';
+
+// Events that only members of the chat named in the payload may send
+const MEMBER_ONLY_EVENTS = [
+    'chat:join',
+    'chat:send_message',
+    'chat:edit_message',
+    'chat:delete_message',
+    'chat:add_reaction',
+    'chat:remove_reaction',
+    'chat:typing',
+    'chat:mark_read',
+    'chat:get_online_users',
+] as const;
+
+// Per-user limits of client events (hits per window)
+const EVENT_RATE_LIMITS = {
+    'chat:send_message': {limit: 30, windowSeconds: 10},
+    'chat:edit_message': {limit: 20, windowSeconds: 60},
+    'chat:delete_message': {limit: 30, windowSeconds: 60},
+    'chat:add_reaction': {limit: 60, windowSeconds: 60},
+    'chat:remove_reaction': {limit: 60, windowSeconds: 60},
+    'chat:typing': {limit: 20, windowSeconds: 10},
+    'chat:join': {limit: 60, windowSeconds: 60},
 };
 
-type TypingPayload = {
-    chatId: string;
-    isTyping: boolean;
+/**
+ * Verify the socket's user belongs to the chat of the (validated) payload.
+ * Reports a structured NOT_CHAT_MEMBER error, except for silent events.
+ */
+const requireChatMember: ws.EventMiddleware = async (ctx, next) => {
+    const {chatId} = ctx.data as { chatId: string };
+    const isMember = await chatService.isUserMember(chatId, ctx.socket.data.userId);
+    if (!isMember) {
+        if (ctx.event !== 'chat:typing') {
+            ws.replyError(ctx.socket, ctx.event, ctx.ack, {code: 'NOT_CHAT_MEMBER', message: 'Access denied', chatId});
+        }
+        return;
+    }
+    await next();
 };
 
-// Validation schemas
-const JoinChatSchema = z.object({
-    chatId: z.string().uuid(),
-});
-
-const SendMessageSchema = z.object({
-    chatId: z.string().uuid(),
-    content: z.string().min(1).max(5000),
-});
-
-const TypingSchema = z.object({
-    chatId: z.string().uuid(),
-    isTyping: z.boolean(),
-});
-
 /**
  * Register all WebSocket event handlers for chat module
  */
 export function registerChatWebSocketHandlers() {
-    // Handler: Join chat room
-    ws.on<JoinChatPayload>('chat:join', async (socket: Socket, data) => {
-        const userId = (socket as any).userId;
+    const chatEvents = ws.defineEvents<ChatClientEvents, ChatServerEvents>(chatClientEvents);
 
-        // Validate payload
-        const parsed = JoinChatSchema.safeParse(data);
-        if (!parsed.success) {
-            socket.emit('error', {
-                event: 'chat:join',
-                message: 'Invalid payload',
-                errors: parsed.error.flatten().fieldErrors,
-            });
-            return;
-        }
+    ws.use(socketRateLimit(EVENT_RATE_LIMITS));
+    MEMBER_ONLY_EVENTS.forEach((event) => chatEvents.use(event, requireChatMember));
 
-        const {chatId} = parsed.data;
+    // Handler: Join chat room
+    chatEvents.on('chat:join', async (socket, {chatId}) => {
+        const userId = (socket as any).userId;
 
-        // TODO: Verify user is member of this chat
-        // const isMember = await chatService.isUserMember(chatId, userId);
-        // if (!isMember) {
-        //     socket.emit('error', {event: 'chat:join', message: 'Access denied'});
-        //     return;
-        // }
+        // Load recent messages before joining so a failed lookup never leaves the socket in the room
+        const recent = await messageService.getRecentMessages(chatId, userId, 50);
 
         // Join the room
         await ws.joinRoom(socket.id, chatId);
 
-        // TODO: Load recent messages
-        // const messages = await messageService.getRecentMessages(chatId, 50);
-
         // Confirm join
-        socket.emit('chat:joined', {
+        chatEvents.emit(socket, 'chat:joined', {
             chatId,
+            messages: recent.items,
+            nextCursor: recent.next_cursor,
             timestamp: new Date().toISOString(),
         });
 
         // Notify others in the room
-        socket.to(chatId).emit('chat:user_joined', {
+        chatEvents.emitToOthers(socket, chatId, 'chat:user_joined', {
             chatId,
             userId,
             timestamp: new Date().toISOString(),
@@ -84,32 +88,20 @@ export function registerChatWebSocketHandlers() {
     });
 
     // Handler: Leave chat room
-    ws.on<JoinChatPayload>('chat:leave', async (socket: Socket, data) => {
+    chatEvents.on('chat:leave', async (socket, {chatId}) => {
         const userId = (socket as any).userId;
 
-        const parsed = JoinChatSchema.safeParse(data);
-        if (!parsed.success) {
-            socket.emit('error', {
-                event: 'chat:leave',
-                message: 'Invalid payload',
-                errors: parsed.error.flatten().fieldErrors,
-            });
-            return;
-        }
-
-        const {chatId} = parsed.data;
-
         // Leave the room
         await ws.leaveRoom(socket.id, chatId);
 
         // Confirm leave
-        socket.emit('chat:left', {
+        chatEvents.emit(socket, 'chat:left', {
             chatId,
             timestamp: new Date().toISOString(),
         });
 
         // Notify others
-        socket.to(chatId).emit('chat:user_left', {
+        chatEvents.emitToOthers(socket, chatId, 'chat:user_left', {
             chatId,
             userId,
             timestamp: new Date().toISOString(),
@@ -120,129 +112,98 @@ export function registerChatWebSocketHandlers() {
     });
 
     // Handler: Send message
-    ws.on<SendMessagePayload>('chat:send_message', async (socket: Socket, data) => {
+    chatEvents.on('chat:send_message', async (socket, data, ack) => {
         const userId = (socket as any).userId;
+        const {chatId, content, type, replyTo, attachmentKey, clientMessageId} = data;
 
-        const parsed = SendMessageSchema.safeParse(data);
-        if (!parsed.success) {
-            socket.emit('error', {
-                event: 'chat:send_message',
-                message: 'Invalid payload',
-                errors: parsed.error.flatten().fieldErrors,
-            });
-            return;
-        }
+        const input = {
+            chat_id: chatId,
+            sender_id: userId,
+            content: content ?? null,
+            type,
+            reply_to: replyTo ?? null,
+            attachment_key: attachmentKey ?? null,
+        };
 
-        const {chatId, content} = parsed.data;
-
-        // TODO: Verify user is member of this chat
-        // const isMember = await chatService.isUserMember(chatId, userId);
-        // if (!isMember) {
-        //     socket.emit('error', {event: 'chat:send_message', message: 'Access denied'});
-        //     return;
-        // }
-
-        // TODO: Save message to database
-        // const message = await messageService.createMessage({
-        //     chatId,
-        //     userId,
-        //     content,
-        // });
-
-        // Temporary message object (replace with actual DB result)
-        const messageId = `msg-${Date.now()}`;
-        const timestamp = new Date().toISOString();
-
-        // Emit to all users in the room (including sender)
-        ws.emitToRoom(chatId, 'chat:new_message', {
-            id: messageId,
-            chatId,
-            userId,
-            content,
-            createdAt: timestamp,
-        });
+        // Persist message; retries with the same client id resolve to the already stored message
+        const result = clientMessageId
+            ? await messageService.sendMessageOnce(input, clientMessageId)
+            : {message: await messageService.sendMessage(input), duplicate: false};
+
+        const message = {...result.message, client_message_id: clientMessageId ?? null};
+
+        // Emit stored row to all users in the room (including sender); duplicates were broadcast already
+        if (!result.duplicate) notifyNewMessage(chatId, message);
+        ack?.({ok: true, message, duplicate: result.duplicate});
 
         // eslint-disable-next-line no-console
         console.info(`[websocket] User ${userId} sent message to chat ${chatId}`);
     });
 
-    // Handler: Typing indicator
-    ws.on<TypingPayload>('chat:typing', async (socket: Socket, data) => {
-        const userId = (socket as any).userId;
+    // Handler: Edit message (the service broadcasts chat:message_edited to the room)
+    chatEvents.on('chat:edit_message', async (socket, {chatId, messageId, content}, ack) => {
+        const message = await messageService.editMessage(chatId, messageId, (socket as any).userId, content);
+        ack?.({ok: true, data: message});
+    });
 
-        const parsed = TypingSchema.safeParse(data);
-        if (!parsed.success) {
-            return; // Silent fail for typing indicator
+    // Handler: Delete message (for me / for everyone)
+    chatEvents.on('chat:delete_message', async (socket, {chatId, messageId, scope}, ack) => {
+        const deleted = await messageService.deleteMessage(chatId, messageId, (socket as any).userId, scope);
+
+        // "for everyone" is broadcast by the service, "for me" only concerns the caller
+        if (scope === 'me') {
+            chatEvents.emit(socket, 'chat:message_deleted', {
+                chatId,
+                messageId,
+                scope,
+                timestamp: new Date().toISOString(),
+            });
         }
+        ack?.({ok: true, data: deleted});
+    });
+
+    // Handlers: Add / remove reaction (the service broadcasts chat:reactions_updated)
+    chatEvents.on('chat:add_reaction', async (socket, {chatId, messageId, reaction}, ack) => {
+        const result = await reactionService.addReaction(chatId, messageId, (socket as any).userId, reaction);
+        ack?.({ok: true, data: result});
+    });
 
-        const {chatId, isTyping} = parsed.data;
+    chatEvents.on('chat:remove_reaction', async (socket, {chatId, messageId, reaction}, ack) => {
+        const result = await reactionService.removeReaction(chatId, messageId, (socket as any).userId, reaction);
+        ack?.({ok: true, data: result});
+    });
 
+    // Handler: Typing indicator
+    chatEvents.on('chat:typing', async (socket, {chatId, isTyping}) => {
         // Broadcast to others in the room (exclude sender)
-        socket.to(chatId).emit('chat:user_typing', {
+        chatEvents.emitToOthers(socket, chatId, 'chat:user_typing', {
             chatId,
-            userId,
+            userId: (socket as any).userId,
             isTyping,
             timestamp: new Date().toISOString(),
         });
     });
 
     // Handler: Mark message as read
-    ws.on<{ chatId: string; messageId: string }>('chat:mark_read', async (socket: Socket, data) => {
-        const userId = (socket as any).userId;
-
-        const parsed = z.object({
-            chatId: z.string().uuid(),
-            messageId: z.string().uuid(),
-        }).safeParse(data);
-
-        if (!parsed.success) {
-            socket.emit('error', {
-                event: 'chat:mark_read',
-                message: 'Invalid payload',
-                errors: parsed.error.flatten().fieldErrors,
-            });
-            return;
-        }
-
-        const {chatId, messageId} = parsed.data;
-
-        // TODO: Update last_read_message_id in chat_members
-        // await chatService.updateLastReadMessage(chatId, userId, messageId);
-
-        // Notify others that this user has read up to this message
-        socket.to(chatId).emit('chat:message_read', {
+    chatEvents.on('chat:mark_read', async (socket, {chatId, messageId}) => {
+        // persists the read position and broadcasts chat:message_read when it moved forward
+        const result = await readReceiptService.markRead(chatId, (socket as any).userId, messageId);
+        chatEvents.emit(socket, 'chat:read_updated', {
             chatId,
-            userId,
-            messageId,
-            timestamp: new Date().toISOString(),
+            lastReadMessageId: result.last_read_message_id,
+            unreadCount: result.unread_count,
         });
     });
 
     // Handler: Get online users in chat
-    ws.on<{ chatId: string }>('chat:get_online_users', async (socket: Socket, data) => {
-        const parsed = z.object({
-            chatId: z.string().uuid(),
-        }).safeParse(data);
-
-        if (!parsed.success) {
-            socket.emit('error', {
-                event: 'chat:get_online_users',
-                message: 'Invalid payload',
-            });
-            return;
-        }
-
-        const {chatId} = parsed.data;
-
-        // Get all socket IDs in the room
-        const socketIds = await ws.getSocketsInRoom(chatId);
-
-        // TODO: Map socket IDs to user IDs
-        // For now, return count
-        socket.emit('chat:online_users', {
+    chatEvents.on('chat:get_online_users', async (socket, {chatId}) => {
+        // Members with at least one live connection, on any device
+        const memberIds = await chatRepo.listMemberIds(chatId);
+        const userIds = await presenceService.getOnlineUserIds(memberIds);
+        chatEvents.emit(socket, 'chat:online_users', {
             chatId,
-            count: socketIds.length,
-            socketIds, // In production, return userIds instead
+            count: userIds.length,
+            userIds,
         });
     });
 
@@ -250,34 +211,153 @@ export function registerChatWebSocketHandlers() {
     console.info('[websocket] Chat handlers registered');
 }
 
+// Log the event for replay on reconnect, then deliver it carrying its sequence number.
+// If logging fails the event is still delivered live, without a seq.
+function emitSequenced(record: () => Promise<number>, emit: (payload: any) => void, event: string, data: any): Promise<void> {
+    return record()
+        .then((seq) => emit({...data, seq}))
+        .catch((err) => {
+            // eslint-disable-next-line no-console
+            console.warn(`[websocket] failed to log "${event}" for replay:`, (err as Error)?.message ?? err);
+            emit(data);
+        });
+}
+
+function emitChatEvent<E extends keyof ChatServerEvents & string>(chatId: string, event: E, data: ChatServerEvents[E], alsoForUserIds: string[] = []): Promise<void> {
+    return emitSequenced(() => syncService.recordChatEvent(chatId, event, data, alsoForUserIds), (payload) => ws.emitToRoom(chatId, event, payload), event, data);
+}
+
 /**
  * Emit notification to specific user (by userId)
- * Useful for sending notifications when user is online
+ * Reaches every connected device of the user through their personal room
  */
-export async function notifyUser(userId: string, event: string, data: any): Promise<void> {
-    // TODO: Map userId to socketId (can use Redis or in-memory Map)
-    // For now, this is a placeholder
-    // const socketId = await getSocketIdByUserId(userId);
-    // if (socketId) {
-    //     ws.emitToSocket(socketId, event, data);
-    // }
+export function notifyUser(userId: string, event: string, data: any): void {
+    void emitSequenced(() => syncService.recordUserEvent(userId, event, data), (payload) => ws.emitToUser(userId, event, payload), event, data);
 }
 
 /**
  * Send message notification to all members of a chat
  */
 export function notifyNewMessage(chatId: string, message: any): void {
-    ws.emitToRoom(chatId, 'chat:new_message', message);
+    emitChatEvent(chatId, 'chat:new_message', message);
+}
+
+/**
+ * Notify chat room that a message was edited
+ */
+export function notifyMessageEdited(chatId: string, message: any): void {
+    emitChatEvent(chatId, 'chat:message_edited', message);
+}
+
+/**
+ * Notify chat room that a message was deleted for everyone
+ */
+export function notifyMessageDeleted(chatId: string, messageId: string, deletedBy: string): void {
+    emitChatEvent(chatId, 'chat:message_deleted', {
+        chatId,
+        messageId,
+        scope: 'everyone',
+        deletedBy,
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * Notify chat room that the reactions of a message changed.
+ * `reactions` carries the new counts; clients derive their own "reacted by me" from userId/action.
+ */
+export function notifyReactionsChanged(chatId: string, messageId: string, userId: string, reaction: string, action: 'added' | 'removed', reactions: {
+    reaction: string;
+    count: number
+}[]): void {
+    emitChatEvent(chatId, 'chat:reactions_updated', {
+        chatId,
+        messageId,
+        userId,
+        reaction,
+        action,
+        reactions: reactions.map(({reaction: r, count}) => ({reaction: r, count})),
+        timestamp: new Date().toISOString(),
+    });
+}
+
+/**
+ * Notify chat room that a member has read up to a message
+ */
+export function notifyMessageRead(chatId: string, userId: string, messageId: string): void {
+    emitChatEvent(chatId, 'chat:message_read', {
+        chatId,
+        userId,
+        messageId,
+        timestamp: new Date().toISOString(),
+    });
 }
 
 /**
  * Notify chat members that request was accepted and chat was created
+ * Nobody has joined the new chat room yet, so participants are reached through their user rooms
  */
 export function notifyChatCreated(chatId: string, participants: string[]): void {
-    // Emit to both users
-    ws.emitToRoom(chatId, 'chat:created', {
+    const payload = {
         chatId,
+        participants,
         timestamp: new Date().toISOString(),
-    });
+    };
+    participants.forEach((userId) => notifyUser(userId, 'chat:created', payload));
+}
+
+
+/**
+ * Notify chat room that members were added
+ */
+export function notifyMembersAdded(chatId: string, userIds: string[], addedBy: string): void {
+    const payload = {
+        chatId,
+        userIds,
+        addedBy,
+        timestamp: new Date().toISOString(),
+    };
+    emitChatEvent(chatId, 'chat:members_added', payload);
+    // new members have not joined the room yet
+    userIds.forEach((userId) => notifyUser(userId, 'chat:members_added', payload));
 }
 
+/**
+ * Notify chat room that a member was removed and drop the member's sockets from the room
+ */
+export function notifyMemberRemoved(chatId: string, userId: string, removedBy: string): void {
+    // the member must still be in the room when the event goes out; it is logged for them as well,
+    // since a replay no longer covers this chat
+    emitChatEvent(chatId, 'chat:member_removed', {
+        chatId,
+        userId,
+        removedBy,
+        timestamp: new Date().toISOString(),
+    }, [userId]).then(() => ws.removeUserFromRoom(userId, chatId));
+}
+
+/**
+ * Notify chat room that a member left and drop the member's sockets from the room
+ */
+export function notifyMemberLeft(chatId: string, userId: string): void {
+    // the member must still be in the room when the event goes out; it is logged for them as well,
+    // since a replay no longer covers this chat
+    emitChatEvent(chatId, 'chat:member_left', {
+        chatId,
+        userId,
+        timestamp: new Date().toISOString(),
+    }, [userId]).then(() => ws.removeUserFromRoom(userId, chatId));
+}
+
+/**
+ * Notify chat room that a member's role changed
+ */
+export function notifyMemberRoleChanged(chatId: string, userId: string, role: 'admin' | 'member', changedBy: string): void {
+    emitChatEvent(chatId, 'chat:member_role_changed', {
+        chatId,
+        userId,
+        role,
+        changedBy,
+        timestamp: new Date().toISOString(),
+    });
+}
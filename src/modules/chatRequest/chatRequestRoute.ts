@@ -4,21 +4,38 @@ import {sendError, sendSuccess} from '../../utils/response';
 import * as service from './chatRequestService';
 import {z} from 'zod';
 import {authenticate} from '../../middleware/auth';
+import {rateLimit} from '../../middleware/rateLimit';
 import * as userRepo from '../user/userRepository';
+import {HandleSchema} from '../user/userModel';
 import * as repo from './chatRequestRepository';
 
 const router = Router();
 
-router.post('/', authenticate, asyncHandler(async (req: Request, res: Response) => {
+// exactly one way to name the receiver
+const ReceiverSchema = z.object({
+    receiver_id: z.string().uuid().optional(),
+    receiver_handle: HandleSchema.optional(),
+    receiver_email: z.string().email().optional(),
+}).refine((r) => [r.receiver_id, r.receiver_handle, r.receiver_email].filter((v) => v !== undefined).length === 1, {
+    message: 'one_receiver_required',
+    path: ['receiver_handle'],
+});
+
+function findReceiver({receiver_id, receiver_handle, receiver_email}: z.infer<typeof ReceiverSchema>) {
+    if (receiver_id) return userRepo.getUserById(receiver_id);
+    if (receiver_handle) return userRepo.getUserByHandle(receiver_handle);
+    return userRepo.getUserByEmail(receiver_email as string);
+}
+
+router.post('/', authenticate, rateLimit({name: 'chat_requests:create', limit: 20, windowSeconds: 60 * 60}), asyncHandler(async (req: Request, res: Response) => {
     const body = req.body ?? {};
-    // receiver_email expected in body; sender derived from token
-    const receiverParse = z.object({receiver_email: z.string().email()}).safeParse(body);
+    // receiver_id, receiver_handle or receiver_email expected in body; sender derived from token
+    const receiverParse = ReceiverSchema.safeParse(body);
     if (!receiverParse.success) return sendError(res, 400, 'validation_error', receiverParse.error.flatten().fieldErrors);
     const senderId = (req as any).user?.id;
     if (!senderId) return sendError(res, 401, 'missing_user');
 
-    // find receiver by email
-    const receiverRow = await userRepo.getUserByEmail(receiverParse.data.receiver_email);
+    const receiverRow = await findReceiver(receiverParse.data);
     if (!receiverRow) return sendError(res, 404, 'receiver_not_found');
     if (receiverRow.id === senderId) return sendError(res, 400, 'cannot_request_self');
 
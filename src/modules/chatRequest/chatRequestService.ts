@@ -3,6 +3,8 @@ import {CreateChatRequestInput} from './chatRequestModel';
 import {HttpError} from '../../errors/HttpError';
 import {executeInTransaction} from '../../databases/postgres';
 import * as chatRepo from '../chat/chatRepository';
+import * as chatWs from '../chat/chatWebSocket';
+import * as memberCache from '../chat/chatMemberCache';
 
 export async function sendRequest(input: CreateChatRequestInput) {
     const {sender_id, receiver_id} = input;
@@ -21,7 +23,9 @@ export async function sendRequest(input: CreateChatRequestInput) {
     if (existing) throw new HttpError(409, 'REQUEST_EXISTS', 'A pending request already exists between these users');
 
     // create request
-    return await repo.createRequest(sender_id, receiver_id);
+    const request = await repo.createRequest(sender_id, receiver_id);
+    chatWs.notifyUser(receiver_id, 'chat_request:received', request);
+    return request;
 }
 
 export async function listIncomingRequests(userId: string) {
@@ -37,7 +41,7 @@ export async function respondRequest(requestId: string, accept: boolean, options
     block?: boolean
 }) {
     // Use transaction because when accepted we will create a chat and members atomically
-    return await executeInTransaction(async (client) => {
+    const result = await executeInTransaction(async (client) => {
         const row = await repo.findById(requestId);
         if (!row) throw new HttpError(404, 'NOT_FOUND', 'Chat request not found');
         if (row.status !== 'pending') throw new HttpError(400, 'ALREADY_RESPONDED', 'Request already responded');
@@ -63,6 +67,14 @@ export async function respondRequest(requestId: string, accept: boolean, options
         const updated = await repo.updateStatusWithClient(client, requestId, 'rejected', options?.rejectedReason ?? null, cooldownUntil);
         return {request: updated, chat: null};
     });
+
+    // notify both parties once the chat is committed; rejections and blocks stay silent
+    if (result.chat && result.request) {
+        await memberCache.invalidateMembers(result.chat.id, [result.request.sender_id, result.request.receiver_id]);
+        chatWs.notifyUser(result.request.sender_id, 'chat_request:accepted', result);
+        chatWs.notifyChatCreated(result.chat.id, [result.request.sender_id, result.request.receiver_id]);
+    }
+    return result;
 }
 
 export async function cancelRequest(requestId: string, userId: string) {
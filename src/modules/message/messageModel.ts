@@ -0,0 +1,87 @@
+import {z} from 'zod';
+import {KeysetCursor} from '../../utils/cursor';
+import {ReactionSummary} from '../reaction/reactionModel';
+
+export const MessageTypeSchema = z.enum(['text', 'image', 'file']);
+export type MessageType = z.infer<typeof MessageTypeSchema>;
+
+export const MessageCreateSchema = z.object({
+    chat_id: z.string().uuid(),
+    sender_id: z.string().uuid(),
+    // optional caption for image/file messages
+    content: z.string().min(1).max(5000).nullable().optional(),
+    type: MessageTypeSchema.default('text'),
+    reply_to: z.string().uuid().nullable().optional(),
+    // object key of a finished presigned upload (image/file messages)
+    attachment_key: z.string().min(1).max(512).nullable().optional(),
+}).refine((m) => m.type !== 'text' || Boolean(m.content), {message: 'content_required', path: ['content']})
+    .refine((m) => m.type === 'text' || Boolean(m.attachment_key), {message: 'attachment_required', path: ['attachment_key']});
+export type MessageCreateInput = z.input<typeof MessageCreateSchema>;
+
+export const MessageRowSchema = z.object({
+    id: z.string().uuid(),
+    chat_id: z.string().uuid(),
+    sender_id: z.string().uuid().nullable(),
+    content: z.string().nullable(),
+    type: MessageTypeSchema,
+    reply_to: z.string().uuid().nullable().optional(),
+    created_at: z.string(),
+    edited_at: z.string().nullable().optional(),
+    deleted_at: z.string().nullable().optional(),
+});
+export type MessageRow = z.infer<typeof MessageRowSchema>;
+
+export const MessageListQuerySchema = z.object({
+    before: z.string().min(1).optional(),
+    after: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+}).refine((q) => !(q.before && q.after), {message: 'before_and_after_exclusive', path: ['before']});
+export type MessageListQuery = z.infer<typeof MessageListQuerySchema>;
+
+export type MessageCursor = KeysetCursor;
+
+export type MessageAttachment = {
+    id: string;
+    file_url: string;
+    file_type: string | null;
+    file_size: number | null;
+};
+
+export type MessageReplyPreview = {
+    id: string;
+    sender_id: string | null;
+    sender_name: string | null;
+    type: MessageType;
+    content: string | null;
+    deleted: boolean;
+};
+
+export type MessageWithDetails = MessageRow & {
+    sender_name: string | null;
+    sender_avatar: string | null;
+    reply_preview: MessageReplyPreview | null;
+    attachments: MessageAttachment[];
+    reactions: ReactionSummary[];
+};
+
+export type MessagePage = {
+    items: MessageWithDetails[];
+    next_cursor: string | null;
+    prev_cursor: string | null;
+};
+
+export const MessageEditSchema = z.object({
+    content: z.string().min(1).max(5000),
+});
+export type MessageEditInput = z.infer<typeof MessageEditSchema>;
+
+export const MessageDeleteScopeSchema = z.enum(['me', 'everyone']);
+export type MessageDeleteScope = z.infer<typeof MessageDeleteScopeSchema>;
+
+export type MessageEditRow = {
+    id: string;
+    message_id: string;
+    previous_content: string | null;
+    edited_by: string | null;
+    edited_at: string;
+};
@@ -0,0 +1,113 @@
+import {query} from '../../databases/postgres';
+import {PoolClient} from 'pg';
+import {MessageCursor, MessageEditRow, MessageRow, MessageType, MessageWithDetails} from './messageModel';
+
+const MESSAGE_COLUMNS = 'id, chat_id, sender_id, content, type, reply_to, created_at, edited_at, deleted_at';
+
+export async function createMessage(chatId: string, senderId: string, content: string | null, type: MessageType = 'text', replyTo: string | null = null): Promise<MessageRow> {
+    const res = await query<MessageRow>(`INSERT INTO messages (chat_id, sender_id, content, type, reply_to)
+                                         VALUES ($1, $2, $3, $4, $5) RETURNING ${MESSAGE_COLUMNS}`, [chatId, senderId, content, type, replyTo]);
+    return res.rows[0];
+}
+
+export async function createMessageWithClient(client: PoolClient, chatId: string, senderId: string, content: string | null, type: MessageType = 'text', replyTo: string | null = null): Promise<MessageRow> {
+    const res = await client.query<MessageRow>(`INSERT INTO messages (chat_id, sender_id, content, type, reply_to)
+                                                VALUES ($1, $2, $3, $4, $5) RETURNING ${MESSAGE_COLUMNS}`, [chatId, senderId, content, type, replyTo]);
+    return res.rows[0];
+}
+
+export async function getMessageById(id: string): Promise<MessageRow | null> {
+    const res = await query<MessageRow>(`SELECT ${MESSAGE_COLUMNS} FROM messages WHERE id = $1`, [id]);
+    return res.rows[0] ?? null;
+}
+
+// Detailed select used by history endpoints: sender profile, reply preview, attachments and reactions.
+// Expects the viewer's user id as $2 (for `reacted_by_me`).
+const MESSAGE_DETAILS_SELECT = `
+    SELECT m.id, m.chat_id, m.sender_id, m.content, m.type, m.reply_to, m.created_at, m.edited_at, m.deleted_at,
+           to_char(m.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS cursor_created_at,
+           u.name   AS sender_name,
+           u.avatar AS sender_avatar,
+           CASE
+               WHEN r.id IS NULL THEN NULL
+               ELSE json_build_object(
+                       'id', r.id,
+                       'sender_id', r.sender_id,
+                       'sender_name', ru.name,
+                       'type', r.type,
+                       'content', CASE WHEN r.deleted_at IS NULL THEN left(r.content, 200) END,
+                       'deleted', r.deleted_at IS NOT NULL
+                    )
+               END  AS reply_preview,
+           COALESCE((SELECT json_agg(json_build_object('id', a.id, 'file_url', a.file_url, 'file_type', a.file_type, 'file_size', a.file_size))
+                     FROM message_attachments a
+                     WHERE a.message_id = m.id), '[]'::json) AS attachments,
+           COALESCE((SELECT json_agg(json_build_object('reaction', rx.reaction, 'count', rx.count, 'reacted_by_me', rx.reacted_by_me) ORDER BY rx.first_at)
+                     FROM (SELECT reaction, count(*)::int AS count, bool_or(user_id = $2) AS reacted_by_me, min(created_at) AS first_at
+                           FROM message_reactions
+                           WHERE message_id = m.id
+                           GROUP BY reaction) rx), '[]'::json) AS reactions
+    FROM messages m
+             LEFT JOIN users u ON u.id = m.sender_id
+             LEFT JOIN messages r ON r.id = m.reply_to
+             LEFT JOIN users ru ON ru.id = r.sender_id`;
+
+export type MessageDetailsRow = MessageWithDetails & { cursor_created_at: string };
+
+// Keyset pagination on (created_at, id). `before` walks towards older messages (newest first),
+// `after` walks towards newer messages (oldest first). Callers fetch limit + 1 to detect more pages.
+export async function listMessages(chatId: string, viewerId: string, opts: {
+    before?: MessageCursor | null;
+    after?: MessageCursor | null;
+    limit: number
+}): Promise<MessageDetailsRow[]> {
+    const params: any[] = [chatId, viewerId];
+    let cursorClause = '';
+    let order = 'DESC';
+
+    if (opts.before) {
+        params.push(opts.before.created_at, opts.before.id);
+        cursorClause = `AND (m.created_at, m.id) < ($3::timestamptz, $4::uuid)`;
+    } else if (opts.after) {
+        params.push(opts.after.created_at, opts.after.id);
+        cursorClause = `AND (m.created_at, m.id) > ($3::timestamptz, $4::uuid)`;
+        order = 'ASC';
+    }
+    params.push(opts.limit);
+
+    const res = await query<MessageDetailsRow>(`${MESSAGE_DETAILS_SELECT}
+        WHERE m.chat_id = $1
+          AND m.deleted_at IS NULL
+          AND NOT EXISTS (SELECT 1 FROM message_hidden h WHERE h.message_id = m.id AND h.user_id = $2) ${cursorClause}
+        ORDER BY m.created_at ${order}, m.id ${order}
+        LIMIT $${params.length}`, params);
+    return res.rows;
+}
+
+export async function getMessageForUpdateWithClient(client: PoolClient, id: string): Promise<MessageRow | null> {
+    const res = await client.query<MessageRow>(`SELECT ${MESSAGE_COLUMNS} FROM messages WHERE id = $1 FOR UPDATE`, [id]);
+    return res.rows[0] ?? null;
+}
+
+export async function insertEditWithClient(client: PoolClient, messageId: string, previousContent: string | null, editedBy: string): Promise<void> {
+    await client.query('INSERT INTO message_edits (message_id, previous_content, edited_by) VALUES ($1, $2, $3)', [messageId, previousContent, editedBy]);
+}
+
+export async function updateContentWithClient(client: PoolClient, id: string, content: string): Promise<MessageRow> {
+    const res = await client.query<MessageRow>(`UPDATE messages SET content = $1, edited_at = current_timestamp WHERE id = $2 RETURNING ${MESSAGE_COLUMNS}`, [content, id]);
+    return res.rows[0];
+}
+
+export async function listEdits(messageId: string): Promise<MessageEditRow[]> {
+    const res = await query<MessageEditRow>('SELECT id, message_id, previous_content, edited_by, edited_at FROM message_edits WHERE message_id = $1 ORDER BY edited_at DESC', [messageId]);
+    return res.rows;
+}
+
+export async function softDeleteMessage(id: string): Promise<MessageRow | null> {
+    const res = await query<MessageRow>(`UPDATE messages SET deleted_at = current_timestamp WHERE id = $1 AND deleted_at IS NULL RETURNING ${MESSAGE_COLUMNS}`, [id]);
+    return res.rows[0] ?? null;
+}
+
+export async function hideMessageForUser(messageId: string, userId: string): Promise<void> {
+    await query('INSERT INTO message_hidden (message_id, user_id) VALUES ($1, $2) ON CONFLICT (message_id, user_id) DO NOTHING', [messageId, userId]);
+}
@@ -0,0 +1,201 @@
+import * as repo from './messageRepository';
+import * as chatService from '../chat/chatService';
+import {
+    MessageCreateInput,
+    MessageCreateSchema,
+    MessageDeleteScope,
+    MessageListQuery,
+    MessagePage
+} from './messageModel';
+import {HttpError} from '../../errors/HttpError';
+import {executeInTransaction} from '../../databases/postgres';
+import Config from '../../config';
+import * as chatWs from '../chat/chatWebSocket';
+import {decodeCursor, encodeCursor} from '../../utils/cursor';
+import * as attachmentService from '../attachment/attachmentService';
+import * as attachmentRepo from '../attachment/attachmentRepository';
+import * as redis from '../../databases/redis';
+
+// How long a client message id keeps mapping to the stored message
+const CLIENT_MESSAGE_ID_TTL_SECONDS = Number(process.env.CLIENT_MESSAGE_ID_TTL_SECONDS ?? 24 * 60 * 60);
+const CLIENT_MESSAGE_PENDING = 'pending';
+
+function clientMessageKey(senderId: string, clientMessageId: string) {
+    return `message:client:${senderId}:${clientMessageId}`;
+}
+
+export async function sendMessage(input: MessageCreateInput) {
+    const parsed = MessageCreateSchema.safeParse(input);
+    if (!parsed.success) throw new HttpError(400, 'INVALID_INPUT', 'Invalid message payload');
+    const {chat_id, sender_id, content, type, reply_to, attachment_key} = parsed.data;
+
+    await chatService.assertChatMember(chat_id, sender_id);
+
+    // a reply must point at a message of the same chat
+    if (reply_to) {
+        const parent = await repo.getMessageById(reply_to);
+        if (!parent || parent.chat_id !== chat_id) throw new HttpError(400, 'INVALID_REPLY', 'Replied message not found in this chat');
+    }
+
+    if (type === 'text') {
+        const message = await repo.createMessage(chat_id, sender_id, content ?? null, type, reply_to ?? null);
+        return {...message, attachments: []};
+    }
+
+    // image/file: the referenced upload must be finished and match the slot handed out for this chat
+    const upload = await attachmentService.claimUpload(chat_id, sender_id, attachment_key as string, type);
+    try {
+        return await executeInTransaction(async (client) => {
+            const message = await repo.createMessageWithClient(client, chat_id, sender_id, content ?? null, type, reply_to ?? null);
+            const attachment = await attachmentRepo.createAttachmentWithClient(client, message.id, upload.object_key, upload.content_type, upload.size);
+            return {...message, attachments: [attachment]};
+        });
+    } catch (err) {
+        // nothing references the object, the sender may retry with it
+        await attachmentService.restoreUpload(upload);
+        throw err;
+    }
+}
+
+/**
+ * Send a message at most once per (sender, client message id).
+ * Retries of an already stored message return the stored row with `duplicate: true`;
+ * a retry racing the first attempt gets a retryable SEND_IN_PROGRESS error.
+ */
+export async function sendMessageOnce(input: MessageCreateInput, clientMessageId: string) {
+    const key = clientMessageKey(input.sender_id, clientMessageId);
+    const client = redis.getRedisClient();
+
+    const reserved = await client.set(key, CLIENT_MESSAGE_PENDING, {NX: true, EX: CLIENT_MESSAGE_ID_TTL_SECONDS});
+    if (!reserved) {
+        const existingId = await redis.get(key);
+        if (!existingId || existingId === CLIENT_MESSAGE_PENDING) {
+            throw new HttpError(409, 'SEND_IN_PROGRESS', 'Message with this client id is still being processed');
+        }
+        const existing = await getMessage(existingId);
+        if (existing.chat_id !== input.chat_id) throw new HttpError(409, 'CLIENT_ID_CONFLICT', 'Client message id already used in another chat');
+        const attachments = await attachmentRepo.listForMessage(existingId);
+        return {message: {...existing, attachments}, duplicate: true};
+    }
+
+    let message: Awaited<ReturnType<typeof sendMessage>>;
+    try {
+        message = await sendMessage(input);
+    } catch (err) {
+        // nothing was stored: release the reservation so the client can retry
+        await redis.del(key).catch(() => undefined);
+        throw err;
+    }
+    await recordClientMessageId(key, message.id);
+    return {message, duplicate: false};
+}
+
+// Once the row exists the reservation must never be released, or a retry would store it twice.
+// If Redis keeps failing the pending marker stays until it expires and retries get SEND_IN_PROGRESS.
+async function recordClientMessageId(key: string, messageId: string) {
+    for (let attempt = 1; attempt <= 3; attempt++) {
+        try {
+            await redis.set(key, messageId, CLIENT_MESSAGE_ID_TTL_SECONDS);
+            return;
+        } catch (err) {
+            if (attempt === 3) {
+                // eslint-disable-next-line no-console
+                console.warn(`[message] failed to record client message id for ${messageId}:`, (err as Error)?.message ?? err);
+            }
+        }
+    }
+}
+
+export async function getMessage(messageId: string) {
+    const message = await repo.getMessageById(messageId);
+    if (!message) throw new HttpError(404, 'MESSAGE_NOT_FOUND', 'Message not found');
+    return message;
+}
+
+/**
+ * List messages of a chat with keyset pagination.
+ * Items are always returned newest first; `next_cursor` pages towards older messages,
+ * `prev_cursor` towards newer ones.
+ */
+export async function listMessages(chatId: string, userId: string, opts: Partial<MessageListQuery> = {}): Promise<MessagePage> {
+    await chatService.assertChatMember(chatId, userId);
+
+    const limit = opts.limit ?? 50;
+    const before = opts.before ? decodeCursor(opts.before) : null;
+    const after = opts.after ? decodeCursor(opts.after) : null;
+
+    const rows = await repo.listMessages(chatId, userId, {before, after, limit: limit + 1});
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    // `after` pages come back oldest first, normalize to newest first
+    if (after) page.reverse();
+
+    const items = page.map(({cursor_created_at: _c, ...item}) => item);
+    const cursorOf = (row: typeof page[number]) => encodeCursor({created_at: row.cursor_created_at, id: row.id});
+    const newest = page[0];
+    const oldest = page[page.length - 1];
+
+    return {
+        items,
+        // older messages exist when we paged backwards and got a full page, or when we paged forward from a cursor
+        next_cursor: oldest && (after ? true : hasMore) ? cursorOf(oldest) : null,
+        // newer messages exist when we paged forward and got a full page, or when we paged backwards from a cursor
+        prev_cursor: newest && (after ? hasMore : Boolean(before)) ? cursorOf(newest) : null,
+    };
+}
+
+export async function getRecentMessages(chatId: string, userId: string, limit = 50): Promise<MessagePage> {
+    return listMessages(chatId, userId, {limit});
+}
+
+// Load a live (not deleted) message and make sure it belongs to the given chat
+export async function getChatMessage(chatId: string, messageId: string) {
+    const message = await repo.getMessageById(messageId);
+    if (!message || message.chat_id !== chatId || message.deleted_at) throw new HttpError(404, 'MESSAGE_NOT_FOUND', 'Message not found');
+    return message;
+}
+
+export async function editMessage(chatId: string, messageId: string, userId: string, content: string) {
+    await chatService.assertChatMember(chatId, userId);
+    const windowMs = Config.MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000;
+
+    const updated = await executeInTransaction(async (client) => {
+        const message = await repo.getMessageForUpdateWithClient(client, messageId);
+        if (!message || message.chat_id !== chatId || message.deleted_at) throw new HttpError(404, 'MESSAGE_NOT_FOUND', 'Message not found');
+        if (message.sender_id !== userId) throw new HttpError(403, 'NOT_MESSAGE_SENDER', 'Only the sender can edit this message');
+        if (Date.now() - new Date(message.created_at).getTime() > windowMs) {
+            throw new HttpError(403, 'EDIT_WINDOW_EXPIRED', 'Message can no longer be edited');
+        }
+        if (message.content === content) return message;
+
+        // keep the previous version before overwriting
+        await repo.insertEditWithClient(client, messageId, message.content, userId);
+        return await repo.updateContentWithClient(client, messageId, content);
+    });
+
+    chatWs.notifyMessageEdited(chatId, updated);
+    return updated;
+}
+
+export async function listMessageEdits(chatId: string, messageId: string, userId: string) {
+    await chatService.assertChatMember(chatId, userId);
+    await getChatMessage(chatId, messageId);
+    return await repo.listEdits(messageId);
+}
+
+export async function deleteMessage(chatId: string, messageId: string, userId: string, scope: MessageDeleteScope) {
+    await chatService.assertChatMember(chatId, userId);
+    const message = await getChatMessage(chatId, messageId);
+
+    if (scope === 'me') {
+        await repo.hideMessageForUser(messageId, userId);
+        return {id: messageId, chat_id: chatId, scope};
+    }
+
+    if (message.sender_id !== userId) throw new HttpError(403, 'NOT_MESSAGE_SENDER', 'Only the sender can delete this message for everyone');
+    const deleted = await repo.softDeleteMessage(messageId);
+    if (!deleted) throw new HttpError(404, 'MESSAGE_NOT_FOUND', 'Message not found');
+
+    chatWs.notifyMessageDeleted(chatId, messageId, userId);
+    return {id: messageId, chat_id: chatId, scope, deleted_at: deleted.deleted_at};
+}
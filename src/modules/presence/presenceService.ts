@@ -0,0 +1,202 @@
+import crypto from 'crypto';
+import os from 'os';
+import * as redis from '../../databases/redis';
+import {getRedisClient} from '../../databases/redis';
+import * as userRepo from '../user/userRepository';
+import * as chatRepo from '../chat/chatRepository';
+import * as presenceWs from './presenceWebSocket';
+import Config from '../../config';
+import {UserRow} from '../user/userModel';
+
+type PresenceStatus = UserRow['status'];
+
+// Every node refreshes the heartbeat of its own sockets each sweep. Entries older than
+// STALE_AFTER_MS belong to a node that stopped (crash, kill -9) and are reaped by any live node.
+const STALE_AFTER_MS = Config.PRESENCE_SWEEP_INTERVAL_SECONDS * 2 * 1000;
+// statuses outlive the stale window so the reaper still sees the user as online and can turn them offline
+const PRESENCE_TTL_SECONDS = Config.PRESENCE_SWEEP_INTERVAL_SECONDS * 4;
+const VERSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+const ACTIVITY_WRITE_THROTTLE_MS = 10000;
+
+// identifies this process in socket entries
+const NODE_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+
+// users with sockets anywhere, scored by their latest heartbeat
+const PRESENCE_USERS_KEY = 'presence:users';
+
+// sockets of a user on all nodes: member `<node>|<socket>`, score = last heartbeat (ms)
+function socketsKey(userId: string) {
+    return `presence:sockets:${userId}`;
+}
+
+function statusKey(userId: string) {
+    return `presence:status:${userId}`;
+}
+
+function activityKey(userId: string) {
+    return `presence:activity:${userId}`;
+}
+
+// bumped on every status change, orders presence:changed events and DB writes
+function versionKey(userId: string) {
+    return `presence:version:${userId}`;
+}
+
+function socketMember(socketId: string) {
+    return `${NODE_ID}|${socketId}`;
+}
+
+// Status change as one step, so concurrent nodes cannot both act on the same transition.
+// ARGV[3] requires the current status (empty: any). Going offline first drops stale sockets
+// and only happens when none are left. Returns the new version, or nil when nothing changed.
+const TRANSITION_SCRIPT = `
+local prev = redis.call('GET', KEYS[1]) or 'offline'
+local target = ARGV[1]
+if ARGV[3] ~= '' and prev ~= ARGV[3] then return false end
+if target == 'offline' then
+  redis.call('ZREMRANGEBYSCORE', KEYS[2], '-inf', ARGV[4])
+  if redis.call('ZCARD', KEYS[2]) > 0 then return false end
+  redis.call('ZREM', KEYS[3], ARGV[5])
+end
+if prev == target then return false end
+if target == 'offline' then
+  redis.call('DEL', KEYS[1])
+else
+  redis.call('SET', KEYS[1], target, 'EX', tonumber(ARGV[2]))
+end
+local version = redis.call('INCR', KEYS[4])
+redis.call('EXPIRE', KEYS[4], tonumber(ARGV[6]))
+return version
+`;
+
+// sockets of each user connected to this node
+const localSockets = new Map<string, Set<string>>();
+const lastActivityWrite = new Map<string, number>();
+let sweeper: NodeJS.Timeout | null = null;
+
+async function transition(userId: string, status: PresenceStatus, from?: PresenceStatus): Promise<void> {
+    const reply = await getRedisClient().eval(TRANSITION_SCRIPT, {
+        keys: [statusKey(userId), socketsKey(userId), PRESENCE_USERS_KEY, versionKey(userId)],
+        arguments: [
+            status,
+            String(PRESENCE_TTL_SECONDS),
+            from ?? '',
+            String(Date.now() - STALE_AFTER_MS),
+            userId,
+            String(VERSION_TTL_SECONDS),
+        ],
+    });
+    if (reply === null || reply === undefined) return;
+    const version = Number(reply);
+
+    const now = new Date();
+    await userRepo.updateStatus(userId, status);
+    if (status === 'offline') await userRepo.updateLastSeen(userId, now);
+    // a newer transition may have written the database before us; Redis holds the current status
+    if (Number(await redis.get(versionKey(userId))) !== version) {
+        const current = (await redis.get(statusKey(userId))) as PresenceStatus | null;
+        await userRepo.updateStatus(userId, current ?? 'offline');
+    }
+
+    const partners = await chatRepo.listChatPartnerIds(userId);
+    presenceWs.notifyPresenceChanged(partners, userId, status, status === 'offline' ? now.toISOString() : null, version);
+}
+
+async function touchActivity(userId: string, force = false): Promise<boolean> {
+    const now = Date.now();
+    if (!force && now - (lastActivityWrite.get(userId) ?? 0) < ACTIVITY_WRITE_THROTTLE_MS) return false;
+    lastActivityWrite.set(userId, now);
+    await redis.set(activityKey(userId), String(now), PRESENCE_TTL_SECONDS);
+    return true;
+}
+
+// refresh the heartbeat of this node's sockets of a user
+async function heartbeat(userId: string, socketIds: Iterable<string>): Promise<void> {
+    const client = getRedisClient();
+    const now = Date.now();
+    const members = Array.from(socketIds, (socketId) => ({score: now, value: socketMember(socketId)}));
+    if (members.length > 0) await client.zAdd(socketsKey(userId), members);
+    await client.expire(socketsKey(userId), PRESENCE_TTL_SECONDS);
+    await client.zAdd(PRESENCE_USERS_KEY, {score: now, value: userId});
+}
+
+export async function handleConnect(userId: string, socketId: string): Promise<void> {
+    const sockets = localSockets.get(userId) ?? new Set<string>();
+    sockets.add(socketId);
+    localSockets.set(userId, sockets);
+
+    await heartbeat(userId, [socketId]);
+    await touchActivity(userId, true);
+    await transition(userId, 'online');
+}
+
+export async function handleDisconnect(userId: string, socketId: string): Promise<void> {
+    const sockets = localSockets.get(userId);
+    sockets?.delete(socketId);
+    if (sockets && sockets.size === 0) {
+        localSockets.delete(userId);
+        lastActivityWrite.delete(userId);
+    }
+
+    await getRedisClient().zRem(socketsKey(userId), socketMember(socketId));
+    // other devices (possibly on other nodes) keep the user online
+    await transition(userId, 'offline');
+}
+
+export async function handleActivity(userId: string): Promise<void> {
+    const written = await touchActivity(userId);
+    if (!written) return;
+    await transition(userId, 'online', 'away');
+}
+
+/**
+ * Filter the given users down to those with at least one live connection (online or away)
+ */
+export async function getOnlineUserIds(userIds: string[]): Promise<string[]> {
+    const statuses = await redis.mGet(userIds.map(statusKey));
+    return userIds.filter((_, i) => statuses[i] === 'online' || statuses[i] === 'away');
+}
+
+function logSweepFailure(subject: string, err: unknown) {
+    // eslint-disable-next-line no-console
+    console.warn(`[presence] sweep failed for ${subject}:`, (err as Error)?.message ?? err);
+}
+
+async function sweep(): Promise<void> {
+    const awayAfterMs = Config.PRESENCE_AWAY_AFTER_SECONDS * 1000;
+    for (const [userId, sockets] of localSockets) {
+        try {
+            await heartbeat(userId, sockets);
+            await redis.expire(statusKey(userId), PRESENCE_TTL_SECONDS);
+
+            const lastActivity = Number(await redis.get(activityKey(userId)) ?? 0);
+            if (Date.now() - lastActivity > awayAfterMs) await transition(userId, 'away', 'online');
+        } catch (err) {
+            logSweepFailure(userId, err);
+        }
+    }
+
+    // users no live node has refreshed lately: their remaining sockets died with a node
+    const stale = await getRedisClient().zRangeByScore(PRESENCE_USERS_KEY, '-inf', Date.now() - STALE_AFTER_MS);
+    for (const userId of stale) {
+        try {
+            await transition(userId, 'offline');
+        } catch (err) {
+            logSweepFailure(userId, err);
+        }
+    }
+}
+
+export function startPresenceSweeper(): void {
+    if (sweeper) return;
+    sweeper = setInterval(() => {
+        sweep().catch((err) => logSweepFailure('all users', err));
+    }, Config.PRESENCE_SWEEP_INTERVAL_SECONDS * 1000);
+    sweeper.unref();
+}
+
+export function stopPresenceSweeper(): void {
+    if (!sweeper) return;
+    clearInterval(sweeper);
+    sweeper = null;
+}
@@ -0,0 +1,49 @@
+import * as ws from '../../lib/websocket';
+import {Socket} from 'socket.io';
+import * as presenceService from './presenceService';
+
+function logFailure(action: string, err: unknown) {
+    // eslint-disable-next-line no-console
+    console.warn(`[presence] ${action} failed:`, (err as Error)?.message ?? err);
+}
+
+/**
+ * Track connections of authenticated sockets to drive users.status and last_seen
+ */
+export function registerPresenceWebSocketHandlers() {
+    ws.onConnection((socket: Socket) => {
+        const userId = socket.data?.userId;
+        if (!userId) return;
+
+        presenceService.handleConnect(userId, socket.id).catch((err) => logFailure('connect', err));
+
+        // any client event counts as activity (brings an away user back online)
+        socket.onAny(() => {
+            presenceService.handleActivity(userId).catch((err) => logFailure('activity', err));
+        });
+
+        socket.on('disconnect', () => {
+            presenceService.handleDisconnect(userId, socket.id).catch((err) => logFailure('disconnect', err));
+        });
+    });
+
+    presenceService.startPresenceSweeper();
+
+    // eslint-disable-next-line no-console
+    console.info('[websocket] Presence handlers registered');
+}
+
+/**
+ * Notify contacts / chat partners about a presence change.
+ * `version` grows with every change of the user, clients drop events older than the last one seen.
+ */
+export function notifyPresenceChanged(userIds: string[], userId: string, status: 'online' | 'offline' | 'away', lastSeen: string | null, version: number): void {
+    const payload = {
+        userId,
+        status,
+        lastSeen,
+        version,
+        timestamp: new Date().toISOString(),
+    };
+    userIds.forEach((id) => ws.emitToUser(id, 'presence:changed', payload));
+}
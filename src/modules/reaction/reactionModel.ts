@@ -0,0 +1,32 @@
+import {z} from 'zod';
+
+export const ReactionSchema = z.object({
+    reaction: z.string().trim().min(1).max(100),
+});
+export type ReactionInput = z.infer<typeof ReactionSchema>;
+
+export const ReactionUsersQuerySchema = z.object({
+    cursor: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+export type ReactionUsersQuery = z.infer<typeof ReactionUsersQuerySchema>;
+
+// Aggregated reaction counts of a message as seen by one viewer
+export type ReactionSummary = {
+    reaction: string;
+    count: number;
+    reacted_by_me: boolean;
+};
+
+export type ReactionUser = {
+    id: string;
+    user_id: string;
+    name: string;
+    avatar: string | null;
+    created_at: string;
+};
+
+export type ReactionUsersPage = {
+    items: Omit<ReactionUser, 'id'>[];
+    next_cursor: string | null;
+};
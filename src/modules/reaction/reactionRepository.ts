@@ -0,0 +1,55 @@
+import {query} from '../../databases/postgres';
+import {ReactionSummary, ReactionUser} from './reactionModel';
+import {KeysetCursor} from '../../utils/cursor';
+
+// Returns true when a new reaction row was inserted
+export async function addReaction(messageId: string, userId: string, reaction: string): Promise<boolean> {
+    const res = await query('INSERT INTO message_reactions (message_id, user_id, reaction) VALUES ($1, $2, $3) ON CONFLICT ON CONSTRAINT message_reactions_message_user_reaction_unique DO NOTHING', [messageId, userId, reaction]);
+    const count = (res && (res as any).rowCount) ?? 0;
+    return count > 0;
+}
+
+export async function removeReaction(messageId: string, userId: string, reaction: string): Promise<boolean> {
+    const res = await query('DELETE FROM message_reactions WHERE message_id = $1 AND user_id = $2 AND reaction = $3', [messageId, userId, reaction]);
+    const count = (res && (res as any).rowCount) ?? 0;
+    return count > 0;
+}
+
+export async function summarize(messageId: string, viewerId: string): Promise<ReactionSummary[]> {
+    const res = await query<ReactionSummary>(`SELECT reaction,
+                                                     count(*)::int          AS count,
+                                                     bool_or(user_id = $2) AS reacted_by_me
+                                              FROM message_reactions
+                                              WHERE message_id = $1
+                                              GROUP BY reaction
+                                              ORDER BY min(created_at) ASC`, [messageId, viewerId]);
+    return res.rows;
+}
+
+// Users who reacted with one emoji, oldest first, keyset paginated on (created_at, id)
+export async function listUsers(messageId: string, reaction: string, opts: {
+    after?: KeysetCursor | null;
+    limit: number
+}): Promise<(ReactionUser & { cursor_created_at: string })[]> {
+    const params: any[] = [messageId, reaction];
+    let cursorClause = '';
+    if (opts.after) {
+        params.push(opts.after.created_at, opts.after.id);
+        cursorClause = 'AND (r.created_at, r.id) > ($3::timestamptz, $4::uuid)';
+    }
+    params.push(opts.limit);
+
+    const res = await query<ReactionUser & { cursor_created_at: string }>(`SELECT r.id,
+                                                                               r.user_id,
+                                                                               u.name,
+                                                                               u.avatar,
+                                                                               r.created_at,
+                                                                               to_char(r.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS cursor_created_at
+                                                                        FROM message_reactions r
+                                                                                 JOIN users u ON u.id = r.user_id
+                                                                        WHERE r.message_id = $1
+                                                                          AND r.reaction = $2 ${cursorClause}
+                                                                        ORDER BY r.created_at ASC, r.id ASC
+                                                                        LIMIT $${params.length}`, params);
+    return res.rows;
+}
@@ -0,0 +1,44 @@
+import * as repo from './reactionRepository';
+import * as chatService from '../chat/chatService';
+import * as messageService from '../message/messageService';
+import * as chatWs from '../chat/chatWebSocket';
+import {ReactionUsersPage, ReactionUsersQuery} from './reactionModel';
+import {decodeCursor, encodeCursor} from '../../utils/cursor';
+
+async function loadReactableMessage(chatId: string, messageId: string, userId: string) {
+    await chatService.assertChatMember(chatId, userId);
+    return await messageService.getChatMessage(chatId, messageId);
+}
+
+export async function addReaction(chatId: string, messageId: string, userId: string, reaction: string) {
+    await loadReactableMessage(chatId, messageId, userId);
+    const added = await repo.addReaction(messageId, userId, reaction);
+    const reactions = await repo.summarize(messageId, userId);
+
+    if (added) chatWs.notifyReactionsChanged(chatId, messageId, userId, reaction, 'added', reactions);
+    return {message_id: messageId, reactions};
+}
+
+export async function removeReaction(chatId: string, messageId: string, userId: string, reaction: string) {
+    await loadReactableMessage(chatId, messageId, userId);
+    const removed = await repo.removeReaction(messageId, userId, reaction);
+    const reactions = await repo.summarize(messageId, userId);
+
+    if (removed) chatWs.notifyReactionsChanged(chatId, messageId, userId, reaction, 'removed', reactions);
+    return {message_id: messageId, reactions};
+}
+
+export async function listReactionUsers(chatId: string, messageId: string, userId: string, reaction: string, opts: Partial<ReactionUsersQuery> = {}): Promise<ReactionUsersPage> {
+    await loadReactableMessage(chatId, messageId, userId);
+
+    const limit = opts.limit ?? 50;
+    const after = opts.cursor ? decodeCursor(opts.cursor) : null;
+    const rows = await repo.listUsers(messageId, reaction, {after, limit: limit + 1});
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+        items: page.map(({id: _id, cursor_created_at: _c, ...item}) => item),
+        next_cursor: rows.length > limit && last ? encodeCursor({created_at: last.cursor_created_at, id: last.id}) : null,
+    };
+}
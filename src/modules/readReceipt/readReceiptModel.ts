@@ -0,0 +1,19 @@
+import {z} from 'zod';
+
+export const MarkReadSchema = z.object({
+    message_id: z.string().uuid(),
+});
+export type MarkReadInput = z.infer<typeof MarkReadSchema>;
+
+export type UnreadCount = {
+    chat_id: string;
+    unread_count: number;
+};
+
+export type MessageReader = {
+    user_id: string;
+    name: string;
+    avatar: string | null;
+    // only known when a per-message receipt was recorded (group chats)
+    read_at: string | null;
+};
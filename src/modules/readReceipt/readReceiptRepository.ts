@@ -0,0 +1,84 @@
+import {query} from '../../databases/postgres';
+import {PoolClient} from 'pg';
+import {MessageReader, UnreadCount} from './readReceiptModel';
+
+/**
+ * Move the member's read position forward to `messageId`.
+ * Never moves backwards: returns the previous position when it was updated, `undefined` otherwise.
+ */
+export async function advanceLastReadWithClient(client: PoolClient, chatId: string, userId: string, messageId: string): Promise<{
+    previous: string | null
+} | undefined> {
+    const current = await client.query<{ last_read_message_id: string | null }>('SELECT last_read_message_id FROM chat_members WHERE chat_id = $1 AND user_id = $2 FOR UPDATE', [chatId, userId]);
+    if (!current.rows[0]) return undefined;
+    const previous = current.rows[0].last_read_message_id;
+
+    const res = await client.query(`UPDATE chat_members cm
+                                    SET last_read_message_id = nm.id
+                                    FROM messages nm
+                                    WHERE nm.id = $3
+                                      AND nm.chat_id = cm.chat_id
+                                      AND cm.chat_id = $1
+                                      AND cm.user_id = $2
+                                      AND NOT EXISTS (SELECT 1
+                                                      FROM messages om
+                                                      WHERE om.id = cm.last_read_message_id
+                                                        AND (om.created_at, om.id) >= (nm.created_at, nm.id))`, [chatId, userId, messageId]);
+    const count = (res && (res as any).rowCount) ?? 0;
+    return count > 0 ? {previous} : undefined;
+}
+
+// Record per-message receipts for every message from others between the previous and the new read position
+export async function insertReadsBetweenWithClient(client: PoolClient, chatId: string, userId: string, fromExclusive: string | null, toInclusive: string): Promise<void> {
+    await client.query(`INSERT INTO message_reads (message_id, user_id)
+                        SELECT m.id, $2
+                        FROM messages m
+                                 JOIN messages upto ON upto.id = $4
+                                 LEFT JOIN messages since ON since.id = $3
+                        WHERE m.chat_id = $1
+                          AND m.sender_id IS DISTINCT FROM $2
+                          AND m.deleted_at IS NULL
+                          AND (m.created_at, m.id) <= (upto.created_at, upto.id)
+                          AND (since.id IS NULL OR (m.created_at, m.id) > (since.created_at, since.id))
+                        ON CONFLICT ON CONSTRAINT message_reads_message_id_user_id_unique DO NOTHING`, [chatId, userId, fromExclusive, toInclusive]);
+}
+
+// Unread count of one membership row; expects `cm` (chat_members) and `lr` (its last read message) aliases
+export const UNREAD_COUNT_EXPR = `
+    (SELECT count(*)::int
+     FROM messages m
+     WHERE m.chat_id = cm.chat_id
+       AND m.deleted_at IS NULL
+       AND m.sender_id IS DISTINCT FROM cm.user_id
+       AND NOT EXISTS (SELECT 1 FROM message_hidden h WHERE h.message_id = m.id AND h.user_id = cm.user_id)
+       AND (lr.id IS NULL OR (m.created_at, m.id) > (lr.created_at, lr.id)))`;
+
+const UNREAD_SELECT = `
+    SELECT cm.chat_id, ${UNREAD_COUNT_EXPR} AS unread_count
+    FROM chat_members cm
+             LEFT JOIN messages lr ON lr.id = cm.last_read_message_id`;
+
+export async function countUnreadForUser(userId: string): Promise<UnreadCount[]> {
+    const res = await query<UnreadCount>(`${UNREAD_SELECT} WHERE cm.user_id = $1`, [userId]);
+    return res.rows;
+}
+
+export async function countUnreadInChat(chatId: string, userId: string): Promise<number> {
+    const res = await query<UnreadCount>(`${UNREAD_SELECT} WHERE cm.user_id = $1 AND cm.chat_id = $2`, [userId, chatId]);
+    return res.rows[0]?.unread_count ?? 0;
+}
+
+// Members (other than the sender) whose read position is at or past the message
+export async function listReaders(chatId: string, messageId: string): Promise<MessageReader[]> {
+    const res = await query<MessageReader>(`SELECT cm.user_id, u.name, u.avatar, mr.read_at
+                                            FROM chat_members cm
+                                                     JOIN users u ON u.id = cm.user_id
+                                                     JOIN messages target ON target.id = $2
+                                                     JOIN messages lr ON lr.id = cm.last_read_message_id
+                                                     LEFT JOIN message_reads mr ON mr.message_id = target.id AND mr.user_id = cm.user_id
+                                            WHERE cm.chat_id = $1
+                                              AND cm.user_id IS DISTINCT FROM target.sender_id
+                                              AND (lr.created_at, lr.id) >= (target.created_at, target.id)
+                                            ORDER BY mr.read_at ASC NULLS LAST, u.name ASC`, [chatId, messageId]);
+    return res.rows;
+}
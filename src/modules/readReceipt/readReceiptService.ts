@@ -0,0 +1,40 @@
+import * as repo from './readReceiptRepository';
+import * as chatService from '../chat/chatService';
+import * as chatRepo from '../chat/chatRepository';
+import * as messageService from '../message/messageService';
+import * as chatWs from '../chat/chatWebSocket';
+import {executeInTransaction} from '../../databases/postgres';
+
+export async function markRead(chatId: string, userId: string, messageId: string) {
+    await chatService.assertChatMember(chatId, userId);
+    await messageService.getChatMessage(chatId, messageId);
+    const chat = await chatService.getChat(chatId);
+
+    const advanced = await executeInTransaction(async (client) => {
+        const moved = await repo.advanceLastReadWithClient(client, chatId, userId, messageId);
+        if (!moved) return false;
+        // groups keep per-message receipts, private chats derive them from the read position
+        if (chat.type === 'group') await repo.insertReadsBetweenWithClient(client, chatId, userId, moved.previous, messageId);
+        return true;
+    });
+
+    if (advanced) chatWs.notifyMessageRead(chatId, userId, messageId);
+    const member = await chatRepo.getMember(chatId, userId);
+    const unreadCount = await repo.countUnreadInChat(chatId, userId);
+    return {
+        chat_id: chatId,
+        last_read_message_id: member?.last_read_message_id ?? null,
+        advanced,
+        unread_count: unreadCount
+    };
+}
+
+export async function getUnreadCounts(userId: string) {
+    return await repo.countUnreadForUser(userId);
+}
+
+export async function listReaders(chatId: string, messageId: string, userId: string) {
+    await chatService.assertChatMember(chatId, userId);
+    await messageService.getChatMessage(chatId, messageId);
+    return await repo.listReaders(chatId, messageId);
+}
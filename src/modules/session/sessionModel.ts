@@ -0,0 +1,6 @@
+import {SessionRow} from '../token/refreshTokenRepository';
+
+export type Session = SessionRow & {
+    // the session the request was made from
+    current: boolean;
+};
@@ -0,0 +1,28 @@
+import * as refreshRepo from '../token/refreshTokenRepository';
+import {HttpError} from '../../errors/HttpError';
+import * as tokenService from '../auth/tokenService';
+import {Session} from './sessionModel';
+
+export async function listSessions(userId: string, currentSessionId: string | null): Promise<Session[]> {
+    const rows = await refreshRepo.listActiveSessions(userId);
+    return rows.map((row) => ({...row, current: row.id === currentSessionId}));
+}
+
+/**
+ * Sign a device out: its tokens stop working and its live sockets are disconnected
+ */
+export async function revokeSession(userId: string, sessionId: string) {
+    const revoked = await refreshRepo.revokeSession(userId, sessionId);
+    if (!revoked) throw new HttpError(404, 'SESSION_NOT_FOUND', 'Session not found');
+    // access tokens already issued to the device stop working too
+    await tokenService.revokeSessionAccess(sessionId);
+}
+
+/**
+ * Sign out every device except the current one
+ */
+export async function revokeOtherSessions(userId: string, currentSessionId: string | null) {
+    const revoked = await refreshRepo.revokeOtherSessions(userId, currentSessionId);
+    await Promise.all(revoked.map((sessionId) => tokenService.revokeSessionAccess(sessionId)));
+    return {revoked: revoked.length};
+}
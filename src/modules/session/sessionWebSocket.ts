@@ -0,0 +1,27 @@
+import * as ws from '../../lib/websocket';
+import {Socket} from 'socket.io';
+
+export function getSessionRoom(sessionId: string) {
+    return `session:${sessionId}`;
+}
+
+/**
+ * Group sockets by the device session their access token belongs to
+ */
+export function registerSessionWebSocketHandlers() {
+    ws.onConnection((socket: Socket) => {
+        const sessionId = socket.data?.sessionId;
+        if (sessionId) socket.join(getSessionRoom(sessionId));
+    });
+
+    // eslint-disable-next-line no-console
+    console.info('[websocket] Session handlers registered');
+}
+
+/**
+ * Disconnect every live socket of a session, on every node
+ */
+export function disconnectSession(sessionId: string): void {
+    if (!ws.isInitialized()) return;
+    ws.disconnectRoom(getSessionRoom(sessionId), true);
+}
@@ -0,0 +1,19 @@
+import {z} from 'zod';
+
+// What a reconnecting client last saw, sent in the handshake auth or with sync:request
+export const SyncSinceSchema = z.object({
+    lastSeq: z.coerce.number().int().min(0).optional(),
+    lastEventAt: z.iso.datetime({offset: true}).optional(),
+}).refine((s) => s.lastSeq !== undefined || s.lastEventAt !== undefined, {message: 'since_required'});
+export type SyncSince = z.infer<typeof SyncSinceSchema>;
+
+export type SyncEvent = {
+    seq: number;
+    event: string;
+    data: unknown;
+    ts: string;
+};
+
+export type SyncReplay =
+    | { status: 'ok'; events: SyncEvent[]; latestSeq: number }
+    | { status: 'resync_required'; reason: string; latestSeq: number };
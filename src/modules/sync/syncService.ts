@@ -0,0 +1,116 @@
+import * as redis from '../../databases/redis';
+import * as chatRepo from '../chat/chatRepository';
+import Config from '../../config';
+import {SyncEvent, SyncReplay, SyncSince} from './syncModel';
+
+// One global sequence orders every logged event, so the stream a user sees (their personal log
+// merged with the logs of their chats) is totally ordered without per-user fan-out on write.
+const SEQ_KEY = 'events:seq';
+
+function chatLogKey(chatId: string) {
+    return `events:log:chat:${chatId}`;
+}
+
+function userLogKey(userId: string) {
+    return `events:log:user:${userId}`;
+}
+
+// newest entry dropped from a capped log; replays reaching behind it cannot be complete
+function trimmedKey(logKey: string) {
+    return `${logKey}:trimmed`;
+}
+
+// One entry, under one sequence number, may be written to several logs
+async function append(logKeys: string[], event: string, data: unknown): Promise<SyncEvent> {
+    const client = redis.getRedisClient();
+    const seq = await client.incr(SEQ_KEY);
+    const entry: SyncEvent = {seq, event, data, ts: new Date().toISOString()};
+
+    for (const logKey of logKeys) {
+        await client.zAdd(logKey, {score: seq, value: JSON.stringify(entry)});
+        await client.expire(logKey, Config.EVENT_LOG_TTL_SECONDS);
+
+        const size = await client.zCard(logKey);
+        const overflow = size - Config.EVENT_LOG_MAX_PER_STREAM;
+        if (overflow > 0) {
+            const [newestDropped] = await client.zRange(logKey, overflow - 1, overflow - 1);
+            if (newestDropped) {
+                const dropped = JSON.parse(newestDropped) as SyncEvent;
+                await redis.setJson(trimmedKey(logKey), {seq: dropped.seq, ts: dropped.ts}, Config.EVENT_LOG_TTL_SECONDS);
+            }
+            await client.zRemRangeByRank(logKey, 0, overflow - 1);
+        }
+    }
+    return entry;
+}
+
+/**
+ * Log an event delivered to a chat room, returns its sequence number.
+ * `alsoForUserIds` get the entry in their personal log too: members who leave stop replaying
+ * the chat's log, but still have to learn about their own removal.
+ */
+export async function recordChatEvent(chatId: string, event: string, data: unknown, alsoForUserIds: string[] = []): Promise<number> {
+    return (await append([chatLogKey(chatId), ...alsoForUserIds.map(userLogKey)], event, data)).seq;
+}
+
+/**
+ * Log an event delivered to one user (all devices), returns its sequence number
+ */
+export async function recordUserEvent(userId: string, event: string, data: unknown): Promise<number> {
+    return (await append([userLogKey(userId)], event, data)).seq;
+}
+
+export async function getLatestSeq(): Promise<number> {
+    return Number(await redis.get(SEQ_KEY) ?? 0);
+}
+
+/**
+ * Collect the events a user missed since the given position, across their chats and their
+ * personal log (which also holds their removals from chats they are no longer in).
+ * Falls back to `resync_required` when logs were trimmed or expired past that position,
+ * or when the gap is larger than a replay may carry.
+ */
+export async function replay(userId: string, since: SyncSince): Promise<SyncReplay> {
+    const client = redis.getRedisClient();
+    const latestSeq = await getLatestSeq();
+    const sinceTs = since.lastEventAt ? Date.parse(since.lastEventAt) : null;
+
+    // logs expire after a period of inactivity, older positions cannot be proven complete
+    if (sinceTs !== null && Date.now() - sinceTs > Config.EVENT_LOG_TTL_SECONDS * 1000) {
+        return {status: 'resync_required', reason: 'gap_too_old', latestSeq};
+    }
+
+    // chat logs count from the user's join, so a new member does not replay what was sent before
+    const memberships = await chatRepo.listMembershipsForUser(userId);
+    const logs = [
+        {key: userLogKey(userId), joinedAt: 0},
+        ...memberships.map((m) => ({key: chatLogKey(m.chat_id), joinedAt: new Date(m.joined_at).getTime()})),
+    ];
+
+    // an entry logged for a chat and for one of its members is read twice
+    const bySeq = new Map<number, SyncEvent>();
+    for (const log of logs) {
+        const trimmed = await redis.getJson<{ seq: number; ts: string }>(trimmedKey(log.key));
+        if (trimmed && Date.parse(trimmed.ts) >= log.joinedAt
+            && ((since.lastSeq !== undefined && trimmed.seq > since.lastSeq) || (sinceTs !== null && Date.parse(trimmed.ts) > sinceTs))) {
+            return {status: 'resync_required', reason: 'events_trimmed', latestSeq};
+        }
+
+        const raw = since.lastSeq !== undefined
+            ? await client.zRangeByScore(log.key, `(${since.lastSeq}`, '+inf')
+            : await client.zRange(log.key, 0, -1);
+        for (const value of raw) {
+            const entry = JSON.parse(value) as SyncEvent;
+            if (Date.parse(entry.ts) < log.joinedAt) continue;
+            if (sinceTs !== null && Date.parse(entry.ts) <= sinceTs) continue;
+            bySeq.set(entry.seq, entry);
+        }
+
+        if (bySeq.size > Config.EVENT_REPLAY_MAX_EVENTS) {
+            return {status: 'resync_required', reason: 'too_many_events', latestSeq};
+        }
+    }
+
+    const events = [...bySeq.values()].sort((a, b) => a.seq - b.seq);
+    return {status: 'ok', events, latestSeq};
+}
@@ -0,0 +1,44 @@
+import * as ws from '../../lib/websocket';
+import {Socket} from 'socket.io';
+import * as syncService from './syncService';
+import {SyncSince, SyncSinceSchema} from './syncModel';
+
+async function sendReplay(socket: Socket, userId: string, since: SyncSince) {
+    const result = await syncService.replay(userId, since);
+    if (result.status === 'resync_required') {
+        socket.emit('sync:resync_required', {reason: result.reason, latestSeq: result.latestSeq});
+        return result;
+    }
+    socket.emit('sync:replay', {events: result.events, latestSeq: result.latestSeq});
+    return result;
+}
+
+/**
+ * Replay events a reconnecting client missed.
+ * Clients pass `lastSeq` (the seq of the last event they processed) or `lastEventAt` in the
+ * handshake auth, or ask again later with sync:request.
+ */
+export function registerSyncWebSocketHandlers() {
+    ws.onConnection(async (socket: Socket) => {
+        const userId = socket.data?.userId;
+        const auth = socket.handshake.auth ?? {};
+        if (!userId || (auth.lastSeq === undefined && auth.lastEventAt === undefined)) return;
+
+        const parsed = SyncSinceSchema.safeParse({lastSeq: auth.lastSeq, lastEventAt: auth.lastEventAt});
+        if (!parsed.success) {
+            socket.emit('error', {event: 'sync:replay', message: 'Invalid lastSeq / lastEventAt in handshake'});
+            return;
+        }
+        await sendReplay(socket, userId, parsed.data);
+    });
+
+    const syncEvents = ws.defineEvents({'sync:request': SyncSinceSchema});
+
+    syncEvents.on('sync:request', async (socket, since, ack) => {
+        const result = await sendReplay(socket, socket.data.userId, since);
+        ack?.({ok: result.status === 'ok', status: result.status, latestSeq: result.latestSeq});
+    });
+
+    // eslint-disable-next-line no-console
+    console.info('[websocket] Sync handlers registered');
+}
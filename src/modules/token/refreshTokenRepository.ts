@@ -1,22 +1,48 @@
 import {query} from '../../databases/postgres';
 import {PoolClient} from 'pg';
 
-export async function saveRefreshToken({userId, tokenHash, expiresAt}: {
+// Device a refresh token (session) was issued to
+export type SessionDevice = {
+    userAgent?: string | null;
+    ip?: string | null;
+    deviceName?: string | null;
+};
+
+export type NewRefreshToken = {
     userId: string;
     tokenHash: string;
-    expiresAt: Date
-}) {
-    const text = `INSERT INTO refresh_tokens (user_id, token_hash, expires_at)
-                  VALUES ($1, $2, $3)`;
-    await query(text, [userId, tokenHash, expiresAt.toISOString()]);
+    expiresAt: Date;
+    // set when rotating, so the new token continues the same session
+    sessionId?: string;
+    device?: SessionDevice;
+};
+
+export type SessionRow = {
+    id: string;
+    device_name: string | null;
+    user_agent: string | null;
+    ip: string | null;
+    signed_in_at: string;
+    last_used_at: string;
+    expires_at: string;
+};
+
+const INSERT_REFRESH_TOKEN = `INSERT INTO refresh_tokens (user_id, token_hash, expires_at, session_id, user_agent, ip, device_name)
+                              VALUES ($1, $2, $3, COALESCE($4::uuid, gen_random_uuid()), $5, $6, $7)
+                              RETURNING session_id`;
+
+function insertParams({userId, tokenHash, expiresAt, sessionId, device}: NewRefreshToken) {
+    return [userId, tokenHash, expiresAt.toISOString(), sessionId ?? null, device?.userAgent ?? null, device?.ip ?? null, device?.deviceName ?? null];
 }
 
-export async function saveRefreshTokenWithClient(client: PoolClient, {userId, tokenHash, expiresAt}: {
-    userId: string;
-    tokenHash: string;
-    expiresAt: Date
-}) {
-    await client.query('INSERT INTO refresh_tokens (user_id, token_hash, expires_at) VALUES ($1, $2, $3)', [userId, tokenHash, expiresAt.toISOString()]);
+export async function saveRefreshToken(token: NewRefreshToken): Promise<string> {
+    const res = await query<{ session_id: string }>(INSERT_REFRESH_TOKEN, insertParams(token));
+    return res.rows[0].session_id;
+}
+
+export async function saveRefreshTokenWithClient(client: PoolClient, token: NewRefreshToken): Promise<string> {
+    const res = await client.query<{ session_id: string }>(INSERT_REFRESH_TOKEN, insertParams(token));
+    return res.rows[0].session_id;
 }
 
 export async function findByHash(tokenHash: string) {
@@ -53,3 +79,47 @@ export async function revokeAllForUser(userId: string) {
 export async function revokeAllForUserWithClient(client: PoolClient, userId: string) {
     await client.query('UPDATE refresh_tokens SET revoked = true WHERE user_id = $1', [userId]);
 }
+
+// Record a use of the session's refresh token, keeping the device info current
+export async function touchSession(sessionId: string, device: SessionDevice = {}) {
+    await query(`UPDATE refresh_tokens
+                 SET last_used_at = current_timestamp,
+                     user_agent   = COALESCE($2, user_agent),
+                     ip           = COALESCE($3, ip)
+                 WHERE session_id = $1
+                   AND revoked = false`, [sessionId, device.userAgent ?? null, device.ip ?? null]);
+}
+
+// Active sessions of a user: one live (unrevoked, unexpired) refresh token each
+export async function listActiveSessions(userId: string): Promise<SessionRow[]> {
+    const res = await query<SessionRow>(`SELECT r.session_id AS id,
+                                                r.device_name,
+                                                r.user_agent,
+                                                r.ip,
+                                                (SELECT min(s.created_at) FROM refresh_tokens s WHERE s.session_id = r.session_id) AS signed_in_at,
+                                                r.last_used_at,
+                                                r.expires_at
+                                         FROM refresh_tokens r
+                                         WHERE r.user_id = $1
+                                           AND r.revoked = false
+                                           AND r.expires_at > current_timestamp
+                                         ORDER BY r.last_used_at DESC`, [userId]);
+    return res.rows;
+}
+
+// Returns whether the session had a live token
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    const res = await query('UPDATE refresh_tokens SET revoked = true WHERE user_id = $1 AND session_id = $2 AND revoked = false', [userId, sessionId]);
+    return (res.rowCount ?? 0) > 0;
+}
+
+// Revoke every session of a user except one, returns the ids of the revoked sessions
+export async function revokeOtherSessions(userId: string, keepSessionId: string | null): Promise<string[]> {
+    const res = await query<{ session_id: string }>(`UPDATE refresh_tokens
+                                                     SET revoked = true
+                                                     WHERE user_id = $1
+                                                       AND revoked = false
+                                                       AND ($2::uuid IS NULL OR session_id <> $2::uuid)
+                                                     RETURNING session_id`, [userId, keepSessionId]);
+    return [...new Set(res.rows.map((r) => r.session_id))];
+}
@@ -0,0 +1,31 @@
+import {query} from '../../databases/postgres';
+import {PoolClient} from 'pg';
+
+export type UserTokenPurpose = 'email_verification' | 'password_reset';
+
+export async function saveUserToken({userId, purpose, tokenHash, expiresAt}: {
+    userId: string;
+    purpose: UserTokenPurpose;
+    tokenHash: string;
+    expiresAt: Date
+}) {
+    await query('INSERT INTO user_tokens (user_id, purpose, token_hash, expires_at) VALUES ($1, $2, $3, $4)', [userId, purpose, tokenHash, expiresAt.toISOString()]);
+}
+
+// Mark a live token used and return its owner; null when unknown, expired or already used.
+// The single UPDATE makes concurrent redemptions of the same token race-free.
+export async function consumeUserTokenWithClient(client: PoolClient, purpose: UserTokenPurpose, tokenHash: string): Promise<string | null> {
+    const res = await client.query<{ user_id: string }>(`UPDATE user_tokens
+                                                         SET used_at = current_timestamp
+                                                         WHERE token_hash = $1
+                                                           AND purpose = $2
+                                                           AND used_at IS NULL
+                                                           AND expires_at > current_timestamp
+                                                         RETURNING user_id`, [tokenHash, purpose]);
+    return res.rows[0]?.user_id ?? null;
+}
+
+// Retire the other outstanding tokens of a user, e.g. older reset links once one was used
+export async function invalidateUserTokensWithClient(client: PoolClient, userId: string, purpose: UserTokenPurpose) {
+    await client.query('UPDATE user_tokens SET used_at = current_timestamp WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL', [userId, purpose]);
+}
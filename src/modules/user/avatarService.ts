@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+import {getMinioClient} from '../../lib/minio';
+import {HttpError} from '../../errors/HttpError';
+import Config from '../../config';
+
+const EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+};
+
+let bucketReady: Promise<void> | null = null;
+
+// Avatars are shown to other users, so the bucket allows anonymous reads (of objects, not listings)
+function ensureBucket(): Promise<void> {
+    if (!bucketReady) {
+        const bucket = Config.MINIO_AVATAR_BUCKET;
+        const policy = {
+            Version: '2012-10-17',
+            Statement: [{
+                Effect: 'Allow',
+                Principal: {AWS: ['*']},
+                Action: ['s3:GetObject'],
+                Resource: [`arn:aws:s3:::${bucket}/*`],
+            }],
+        };
+        bucketReady = getMinioClient().ensureBucket(bucket)
+            .then(() => getMinioClient().setBucketPolicy(bucket, JSON.stringify(policy)))
+            .catch((err) => {
+                // retry on the next upload
+                bucketReady = null;
+                throw err;
+            });
+    }
+    return bucketReady;
+}
+
+// The declared content type is not trusted; the file signature decides
+function detectImageType(buffer: Buffer): string | null {
+    if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'image/jpeg';
+    if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+    if (buffer.length >= 12 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') return 'image/webp';
+    return null;
+}
+
+/**
+ * Validate an uploaded image and store it under a fresh key; returns the key and its public url
+ */
+export async function storeAvatar(userId: string, buffer: Buffer, declaredType: string): Promise<{ key: string; url: string }> {
+    if (buffer.length > Config.AVATAR_MAX_BYTES) {
+        throw new HttpError(413, 'FILE_TOO_LARGE', `Avatar exceeds ${Config.AVATAR_MAX_BYTES} bytes`);
+    }
+    const contentType = detectImageType(buffer);
+    if (!contentType || contentType !== declaredType.split(';')[0].trim().toLowerCase()) {
+        throw new HttpError(400, 'UNSUPPORTED_FILE_TYPE', 'Avatar must be a JPEG, PNG or WebP image');
+    }
+
+    await ensureBucket();
+    const key = `users/${userId}/${crypto.randomUUID()}.${EXTENSIONS[contentType]}`;
+    const url = await getMinioClient().uploadFile(Config.MINIO_AVATAR_BUCKET, key, buffer, contentType, {
+        'Cache-Control': 'public, max-age=31536000, immutable',
+    });
+    return {key, url};
+}
+
+/**
+ * Delete a replaced avatar. Best effort: a leftover object must not fail the profile update.
+ */
+export async function deleteAvatar(key: string): Promise<void> {
+    try {
+        await getMinioClient().deleteFile(Config.MINIO_AVATAR_BUCKET, key);
+    } catch (err) {
+        // eslint-disable-next-line no-console
+        console.warn(`[avatar] failed to delete ${key}:`, (err as Error)?.message ?? err);
+    }
+}
@@ -1,10 +1,17 @@
 import {z} from 'zod';
 
+// lowercase letters, digits and underscore; a leading @ is accepted and dropped
+export const HandleSchema = z.string().trim().toLowerCase()
+    .transform((h) => h.replace(/^@/, ''))
+    .pipe(z.string().regex(/^[a-z0-9_]{3,30}$/, 'invalid_handle'));
+
 export const RegisterSchema = z.object({
     name: z.string().min(1, 'name_required').max(255),
     email: z.string().email('invalid_email').max(255),
     password: z.string().min(6, 'password_too_short').max(1024),
     avatar: z.string().url().nullable().optional(),
+    // generated when omitted, can be changed later
+    handle: HandleSchema.optional(),
 });
 
 export type RegisterInput = z.infer<typeof RegisterSchema>;
@@ -17,16 +24,80 @@ export type LoginInput = z.infer<typeof LoginSchema>;
 
 export const UserRowSchema = z.object({
     id: z.string().uuid(),
+    handle: z.string(),
     name: z.string(),
     email: z.string().email(),
     avatar: z.string().nullable().optional(),
     status: z.union([z.literal('online'), z.literal('offline'), z.literal('away')]),
     last_seen: z.string().nullable().optional(),
+    email_verified_at: z.string().nullable().optional(),
+    // set while TOTP two-factor authentication is on
+    totp_enabled_at: z.string().nullable().optional(),
+    // listed in user search
+    discoverable: z.boolean(),
     created_at: z.string(),
 });
 export type UserRow = z.infer<typeof UserRowSchema>;
 
 // For internal use when selecting password
-export const UserWithPasswordSchema = UserRowSchema.extend({password: z.string()});
+// password is null for social-only accounts
+export const UserWithPasswordSchema = UserRowSchema.extend({password: z.string().nullable()});
 export type UserWithPassword = z.infer<typeof UserWithPasswordSchema>;
 
+
+// Fields other users may see
+export type PublicUser = Pick<UserRow, 'id' | 'handle' | 'name' | 'avatar'>;
+
+// at least one field; avatar null removes it
+export const UpdateProfileSchema = z.object({
+    name: z.string().trim().min(1, 'name_required').max(255).optional(),
+    handle: HandleSchema.optional(),
+    discoverable: z.boolean().optional(),
+    avatar: z.string().url().max(2048).nullable().optional(),
+}).refine((p) => Object.values(p).some((v) => v !== undefined), {message: 'no_changes', path: ['name']});
+export type UpdateProfileInput = z.infer<typeof UpdateProfileSchema>;
+
+export const ChangePasswordSchema = z.object({
+    current_password: z.string().min(1, 'current_password_required'),
+    new_password: z.string().min(6, 'password_too_short').max(1024),
+});
+
+export const UserSearchQuerySchema = z.object({
+    q: z.string().trim().min(2, 'query_too_short').max(100),
+    limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export const ForgotPasswordSchema = z.object({
+    email: z.string().email('invalid_email').max(255),
+});
+
+export const ResetPasswordSchema = z.object({
+    token: z.string().min(1, 'token_required').max(256),
+    password: z.string().min(6, 'password_too_short').max(1024),
+});
+export type ResetPasswordInput = z.infer<typeof ResetPasswordSchema>;
+
+export const VerifyEmailSchema = z.object({
+    token: z.string().min(1, 'token_required').max(256),
+});
+
+export const GoogleSignInSchema = z.object({
+    id_token: z.string().min(1, 'id_token_required'),
+});
+
+export const TwoFactorLoginSchema = z.object({
+    challenge_token: z.string().min(1, 'challenge_token_required'),
+    code: z.string().regex(/^\d{6}$/, 'invalid_code').optional(),
+    recovery_code: z.string().min(1).max(64).optional(),
+}).refine((v) => Boolean(v.code) !== Boolean(v.recovery_code), {message: 'code_or_recovery_code_required'});
+
+export const TwoFactorConfirmSchema = z.object({
+    code: z.string().regex(/^\d{6}$/, 'invalid_code'),
+});
+
+// Re-authentication for disabling 2FA: the password (when the account has one) plus a code
+export const TwoFactorDisableSchema = z.object({
+    password: z.string().min(1).optional(),
+    code: z.string().regex(/^\d{6}$/, 'invalid_code').optional(),
+    recovery_code: z.string().min(1).max(64).optional(),
+}).refine((v) => Boolean(v.code) !== Boolean(v.recovery_code), {message: 'code_or_recovery_code_required'});
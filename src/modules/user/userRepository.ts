@@ -1,52 +1,54 @@
 import {query} from '../../databases/postgres';
-import {UserRow as UserRowType, UserWithPassword as UserWithPasswordType} from './userModel';
+import {PublicUser, UserRow as UserRowType, UserWithPassword as UserWithPasswordType} from './userModel';
 import {HttpError} from '../../errors/HttpError';
 import {PoolClient} from 'pg';
 
 export type UserRow = UserRowType;
 export type UserWithPassword = UserWithPasswordType;
 
-export async function createUser(name: string, email: string, passwordHash: string, avatar?: string | null): Promise<UserRow> {
-    const text = `
-        INSERT INTO users (name, email, password, avatar)
-        VALUES ($1, $2, $3, $4) RETURNING id, name, email, avatar, status, last_seen, created_at
-    `;
-    const values = [name, email.toLowerCase(), passwordHash, avatar ?? null];
+// Unique violations on users come from the handle index or else the email
+function duplicateUserError(err: any): HttpError {
+    if (err?.constraint === 'users_handle_unique') return new HttpError(409, 'HANDLE_TAKEN', 'Handle is already taken');
+    return new HttpError(409, 'EMAIL_ALREADY_EXISTS', 'Email already registered');
+}
+
+// without a chosen handle the column default generates one
+function insertUserSql(handle?: string | null) {
+    return `INSERT INTO users (name, email, password, avatar${handle ? ', handle' : ''})
+            VALUES ($1, $2, $3, $4${handle ? ', $5' : ''}) RETURNING id, handle, name, email, avatar, status, last_seen, email_verified_at, totp_enabled_at, discoverable, created_at`;
+}
+
+export async function createUser(name: string, email: string, passwordHash: string, avatar?: string | null, handle?: string | null): Promise<UserRow> {
+    const values = [name, email.toLowerCase(), passwordHash, avatar ?? null, ...(handle ? [handle] : [])];
 
     try {
-        const res = await query<UserRow>(text, values);
+        const res = await query<UserRow>(insertUserSql(handle), values);
         return res.rows[0];
     } catch (err: any) {
-        // handle duplicate email (unique constraint)
-        if (err?.code === '23505') {
-            throw new HttpError(409, 'EMAIL_ALREADY_EXISTS', 'Email already registered');
-        }
+        // handle duplicate email / handle (unique constraint)
+        if (err?.code === '23505') throw duplicateUserError(err);
         throw err;
     }
 }
 
-export async function createUserWithClient(client: PoolClient, name: string, email: string, passwordHash: string, avatar?: string | null): Promise<UserRow> {
-    const text = `INSERT INTO users (name, email, password, avatar)
-                  VALUES ($1, $2, $3, $4) RETURNING id, name, email, avatar, status, last_seen, created_at`;
-    const values = [name, email.toLowerCase(), passwordHash, avatar ?? null];
+export async function createUserWithClient(client: PoolClient, name: string, email: string, passwordHash: string, avatar?: string | null, handle?: string | null): Promise<UserRow> {
+    const values = [name, email.toLowerCase(), passwordHash, avatar ?? null, ...(handle ? [handle] : [])];
     try {
-        const res = await client.query<UserRow>(text, values);
+        const res = await client.query<UserRow>(insertUserSql(handle), values);
         return res.rows[0];
     } catch (err: any) {
-        if (err?.code === '23505') {
-            throw new HttpError(409, 'EMAIL_ALREADY_EXISTS', 'Email already registered');
-        }
+        if (err?.code === '23505') throw duplicateUserError(err);
         throw err;
     }
 }
 
 export async function getUserById(id: string): Promise<UserRow | null> {
-    const res = await query<UserRow>('SELECT id, name, email, avatar, status, last_seen, created_at FROM users WHERE id = $1', [id]);
+    const res = await query<UserRow>('SELECT id, handle, name, email, avatar, status, last_seen, email_verified_at, totp_enabled_at, discoverable, created_at FROM users WHERE id = $1', [id]);
     return res.rows[0] ?? null;
 }
 
 export async function getUserByEmail(email: string): Promise<UserWithPassword | null> {
-    const res = await query<UserWithPassword>('SELECT id, name, email, password, avatar, status, last_seen, created_at FROM users WHERE email = $1', [email.toLowerCase()]);
+    const res = await query<UserWithPassword>('SELECT id, handle, name, email, password, avatar, status, last_seen, email_verified_at, totp_enabled_at, discoverable, created_at FROM users WHERE email = $1', [email.toLowerCase()]);
     return res.rows[0] ?? null;
 }
 
@@ -57,3 +59,119 @@ export async function updateStatus(userId: string, status: UserRow['status']): P
 export async function updateLastSeen(userId: string, when: Date = new Date()): Promise<void> {
     await query('UPDATE users SET last_seen = $1 WHERE id = $2', [when.toISOString(), userId]);
 }
+
+export async function markEmailVerifiedWithClient(client: PoolClient, userId: string): Promise<void> {
+    await client.query('UPDATE users SET email_verified_at = COALESCE(email_verified_at, current_timestamp) WHERE id = $1', [userId]);
+}
+
+export async function updatePasswordWithClient(client: PoolClient, userId: string, passwordHash: string): Promise<void> {
+    await client.query('UPDATE users SET password = $1 WHERE id = $2', [passwordHash, userId]);
+}
+
+export async function getUserByGoogleId(googleId: string): Promise<UserRow | null> {
+    const res = await query<UserRow>('SELECT id, handle, name, email, avatar, status, last_seen, email_verified_at, totp_enabled_at, discoverable, created_at FROM users WHERE google_id = $1', [googleId]);
+    return res.rows[0] ?? null;
+}
+
+// Link a Google account to an existing user; Google vouched for the email so it counts as verified.
+// Returns null when the user is already linked to another Google account.
+export async function linkGoogleAccount(userId: string, googleId: string): Promise<UserRow | null> {
+    const res = await query<UserRow>(`UPDATE users
+                                      SET google_id         = $2,
+                                          email_verified_at = COALESCE(email_verified_at, current_timestamp)
+                                      WHERE id = $1
+                                        AND (google_id IS NULL OR google_id = $2) RETURNING id, handle, name, email, avatar, status, last_seen, email_verified_at, totp_enabled_at, discoverable, created_at`, [userId, googleId]);
+    return res.rows[0] ?? null;
+}
+
+export async function createGoogleUserWithClient(client: PoolClient, {name, email, googleId, avatar}: {
+    name: string;
+    email: string;
+    googleId: string;
+    avatar?: string | null
+}): Promise<UserRow> {
+    const text = `INSERT INTO users (name, email, password, avatar, google_id, email_verified_at)
+                  VALUES ($1, $2, NULL, $3, $4, current_timestamp) RETURNING id, handle, name, email, avatar, status, last_seen, email_verified_at, totp_enabled_at, discoverable, created_at`;
+    try {
+        const res = await client.query<UserRow>(text, [name, email.toLowerCase(), avatar ?? null, googleId]);
+        return res.rows[0];
+    } catch (err: any) {
+        if (err?.code === '23505') throw duplicateUserError(err);
+        throw err;
+    }
+}
+
+// null for unknown users and social-only accounts
+export async function getPasswordHash(userId: string): Promise<string | null> {
+    const res = await query<{ password: string | null }>('SELECT password FROM users WHERE id = $1', [userId]);
+    return res.rows[0]?.password ?? null;
+}
+
+export async function isAdmin(userId: string): Promise<boolean> {
+    const res = await query<{ is_admin: boolean }>('SELECT is_admin FROM users WHERE id = $1', [userId]);
+    return res.rows[0]?.is_admin ?? false;
+}
+
+/**
+ * Update profile fields and return the row together with the avatar object key it replaced.
+ * `avatarKey` is written along with `avatar` (null for external urls).
+ */
+export async function updateProfile(userId: string, fields: {
+    name?: string;
+    handle?: string;
+    discoverable?: boolean;
+    avatar?: string | null;
+    avatarKey?: string | null
+}): Promise<{ user: UserRow; previousAvatarKey: string | null } | null> {
+    const sets: string[] = [];
+    const values: any[] = [userId];
+    (['name', 'handle', 'discoverable'] as const).forEach((column) => {
+        if (fields[column] === undefined) return;
+        values.push(fields[column]);
+        sets.push(`${column} = $${values.length}`);
+    });
+    if (fields.avatar !== undefined) {
+        values.push(fields.avatar, fields.avatarKey ?? null);
+        sets.push(`avatar = $${values.length - 1}`, `avatar_key = $${values.length}`);
+    }
+
+    const res = await query<UserRow & { previous_avatar_key: string | null }>(`
+        UPDATE users u
+        SET ${sets.join(', ')}
+        FROM (SELECT id, avatar_key FROM users WHERE id = $1 FOR UPDATE) prev
+        WHERE u.id = prev.id
+        RETURNING u.id, u.handle, u.name, u.email, u.avatar, u.status, u.last_seen, u.email_verified_at, u.totp_enabled_at, u.discoverable, u.created_at,
+            prev.avatar_key AS previous_avatar_key`, values).catch((err) => {
+        if (err?.code === '23505') throw duplicateUserError(err);
+        throw err;
+    });
+    const row = res.rows[0];
+    if (!row) return null;
+    const {previous_avatar_key: previousAvatarKey, ...user} = row;
+    return {user, previousAvatarKey};
+}
+
+export async function getUserByHandle(handle: string): Promise<UserRow | null> {
+    const res = await query<UserRow>('SELECT id, handle, name, email, avatar, status, last_seen, email_verified_at, totp_enabled_at, discoverable, created_at FROM users WHERE handle = $1', [handle.toLowerCase()]);
+    return res.rows[0] ?? null;
+}
+
+/**
+ * Discoverable users whose handle starts with or resembles `term`, or whose name resembles it.
+ * Exact and prefix handle matches rank first, then pg_trgm similarity. Emails are never matched.
+ */
+export async function searchUsers(term: string, excludeUserId: string, limit: number): Promise<PublicUser[]> {
+    const prefix = `${term.toLowerCase().replace(/[\\%_]/g, '\\$&')}%`;
+    const res = await query<PublicUser>(`
+        SELECT id, handle, name, avatar
+        FROM users
+        WHERE discoverable
+          AND id <> $2
+          AND (handle LIKE $3 OR handle % lower($1) OR lower(name) % lower($1))
+        ORDER BY handle = lower($1) DESC,
+                 handle LIKE $3 DESC,
+                 greatest(similarity(handle, lower($1)), similarity(lower(name), lower($1))) DESC,
+                 handle
+        LIMIT $4`, [term, excludeUserId, prefix, limit]);
+    return res.rows;
+}
@@ -1,15 +1,52 @@
-import {Request, Response, Router} from 'express';
+import express, {NextFunction, Request, Response, Router} from 'express';
 import * as service from './userService';
-import {LoginSchema, RegisterSchema} from './userModel';
+import {
+    ChangePasswordSchema,
+    ForgotPasswordSchema,
+    GoogleSignInSchema,
+    LoginSchema,
+    RegisterSchema,
+    ResetPasswordSchema,
+    TwoFactorConfirmSchema,
+    TwoFactorDisableSchema,
+    TwoFactorLoginSchema,
+    UpdateProfileSchema,
+    UserSearchQuerySchema,
+    VerifyEmailSchema
+} from './userModel';
 import {z} from 'zod';
 import {asyncHandler} from '../../middleware/asyncHandler';
 import {sendError, sendSuccess} from '../../utils/response';
 import * as tokenService from '../auth/tokenService';
 import * as userRepo from './userRepository';
 import {authenticate} from '../../middleware/auth';
+import {clientIp, hashSubject, rateLimit} from '../../middleware/rateLimit';
+import * as rateLimiter from '../../lib/rateLimiter';
+import Config from '../../config';
+import * as sessionService from '../session/sessionService';
+import * as accountService from '../auth/accountService';
+import * as twoFactorService from '../auth/twoFactorService';
+import * as loginProtection from '../auth/loginProtection';
+import {HttpError} from '../../errors/HttpError';
+import {SessionDevice} from '../token/refreshTokenRepository';
 
 const router = Router();
 
+const loginLimitWindow = Config.LOGIN_RATE_LIMIT_WINDOW_SECONDS;
+const loginLimitByIp = rateLimit({
+    name: 'login:ip',
+    limit: Config.LOGIN_RATE_LIMIT_PER_IP,
+    windowSeconds: loginLimitWindow,
+    key: clientIp,
+});
+// Caps guesses against one account however many addresses they come from
+const loginLimitByEmail = rateLimit({
+    name: 'login:email',
+    limit: Config.LOGIN_RATE_LIMIT_PER_EMAIL,
+    windowSeconds: loginLimitWindow,
+    key: (req) => typeof req.body?.email === 'string' ? hashSubject(req.body.email) : null,
+});
+
 const REFRESH_COOKIE_NAME = process.env.REFRESH_COOKIE_NAME ?? 'refresh_token';
 const REFRESH_COOKIE_OPTIONS = {
     httpOnly: true,
@@ -18,14 +55,42 @@ const REFRESH_COOKIE_OPTIONS = {
     path: '/api',
 };
 
-router.post('/register', asyncHandler(async (req: Request, res: Response) => {
+// Device info recorded on the session; clients may name the device in the body or a header
+function sessionDevice(req: Request): SessionDevice {
+    const name = req.body?.device_name ?? req.get('x-device-name');
+    return {
+        userAgent: req.get('user-agent')?.slice(0, 512) ?? null,
+        ip: clientIp(req),
+        deviceName: typeof name === 'string' && name.trim() ? name.trim().slice(0, 100) : null,
+    };
+}
+
+// Answer a sign-in: tokens and refresh cookie, or the 2FA challenge to complete first
+function sendSignIn(res: Response, result: Awaited<ReturnType<typeof service.loginByEmail>>) {
+    if (result.two_factor_required) {
+        return sendSuccess(res, {
+            two_factor_required: true,
+            challenge_token: result.challenge_token,
+            expires_in: result.expires_in,
+        }, 'two_factor_required');
+    }
+
+    res.cookie(REFRESH_COOKIE_NAME, result.refresh_token, REFRESH_COOKIE_OPTIONS);
+    return sendSuccess(res, {
+        access_token: result.access_token,
+        refresh_token: result.refresh_token,
+        user: result.user
+    }, 'login_success');
+}
+
+router.post('/register', rateLimit({name: 'register:ip', limit: 10, windowSeconds: 60 * 60, key: clientIp}), asyncHandler(async (req: Request, res: Response) => {
     const parse = RegisterSchema.safeParse(req.body);
     if (!parse.success) {
         const errors = parse.error.flatten().fieldErrors;
         return sendError(res, 400, 'validation_error', errors);
     }
     const payload = parse.data;
-    const result = await service.registerUser(payload);
+    const result = await service.registerUser(payload, sessionDevice(req));
 
     // set refresh token cookie
     res.cookie(REFRESH_COOKIE_NAME, result.refresh_token, REFRESH_COOKIE_OPTIONS);
@@ -37,21 +102,216 @@ router.post('/register', asyncHandler(async (req: Request, res: Response) => {
     }, 'user_created', 201);
 }));
 
-router.post('/login', asyncHandler(async (req: Request, res: Response) => {
+router.post('/login', loginLimitByIp, loginLimitByEmail, asyncHandler(async (req: Request, res: Response) => {
     const parse = LoginSchema.safeParse(req.body);
     if (!parse.success) {
         const errors = parse.error.flatten().fieldErrors;
         return sendError(res, 400, 'validation_error', errors);
     }
     const {email, password} = parse.data;
-    const result = await service.loginByEmail(email, password);
+    const ip = clientIp(req);
 
-    res.cookie(REFRESH_COOKIE_NAME, result.refresh_token, REFRESH_COOKIE_OPTIONS);
-    return sendSuccess(res, {
-        access_token: result.access_token,
-        refresh_token: result.refresh_token,
-        user: result.user
-    }, 'login_success');
+    // checked before the password so a locked account cannot be probed; unknown emails lock alike
+    const retryAfter = await loginProtection.getRetryAfter(email, ip);
+    if (retryAfter > 0) {
+        res.setHeader('Retry-After', String(retryAfter));
+        return sendError(res, 429, 'login_locked', {retry_after: retryAfter});
+    }
+
+    let result: Awaited<ReturnType<typeof service.loginByEmail>>;
+    try {
+        result = await service.loginByEmail(email, password, sessionDevice(req));
+    } catch (err) {
+        if (err instanceof HttpError && err.code === 'INVALID_CREDENTIALS') await loginProtection.recordFailure(email, ip);
+        throw err;
+    }
+    // the per-email budget is for guesses; a successful login starts it over
+    await rateLimiter.reset('login:email', hashSubject(email));
+    await loginProtection.recordSuccess(email);
+
+    return sendSignIn(res, result);
+}));
+
+// sign in (or up) with a Google ID token; same response and cookie as /login
+router.post('/google', rateLimit({name: 'google:ip', limit: Config.LOGIN_RATE_LIMIT_PER_IP, windowSeconds: loginLimitWindow, key: clientIp}), asyncHandler(async (req: Request, res: Response) => {
+    const parse = GoogleSignInSchema.safeParse(req.body);
+    if (!parse.success) {
+        const errors = parse.error.flatten().fieldErrors;
+        return sendError(res, 400, 'validation_error', errors);
+    }
+    const result = await service.signInWithGoogle(parse.data.id_token, sessionDevice(req));
+
+    return sendSignIn(res, result);
+}));
+
+// second login step for accounts with two-factor authentication
+router.post('/login/2fa', rateLimit({name: 'login_2fa:ip', limit: Config.LOGIN_RATE_LIMIT_PER_IP, windowSeconds: loginLimitWindow, key: clientIp}), asyncHandler(async (req: Request, res: Response) => {
+    const parse = TwoFactorLoginSchema.safeParse(req.body);
+    if (!parse.success) {
+        const errors = parse.error.flatten().fieldErrors;
+        return sendError(res, 400, 'validation_error', errors);
+    }
+    const {challenge_token, ...factor} = parse.data;
+    const result = await service.completeTwoFactorLogin(challenge_token, factor);
+    return sendSignIn(res, {two_factor_required: false, ...result});
+}));
+
+// two-factor status of the current user
+router.get('/me/2fa', authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+    const status = await twoFactorService.getStatus(authId);
+    return sendSuccess(res, status, 'two_factor_status');
+}));
+
+// start TOTP enrollment: returns the secret and an otpauth:// url to render as QR code
+router.post('/me/2fa/enroll', authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+    const enrollment = await twoFactorService.startEnrollment(authId);
+    return sendSuccess(res, enrollment, 'two_factor_enrollment_started');
+}));
+
+// confirm enrollment with a first code; recovery codes are only returned here
+router.post('/me/2fa/confirm', authenticate, rateLimit({name: '2fa_confirm', limit: 10, windowSeconds: 15 * 60}), asyncHandler(async (req: Request, res: Response) => {
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+    const parse = TwoFactorConfirmSchema.safeParse(req.body);
+    if (!parse.success) return sendError(res, 400, 'validation_error', parse.error.flatten().fieldErrors);
+
+    const result = await twoFactorService.confirmEnrollment(authId, parse.data.code);
+    return sendSuccess(res, result, 'two_factor_enabled');
+}));
+
+// turn 2FA off; needs the password and a code (or recovery code)
+router.post('/me/2fa/disable', authenticate, rateLimit({name: '2fa_disable', limit: 5, windowSeconds: 15 * 60}), asyncHandler(async (req: Request, res: Response) => {
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+    const parse = TwoFactorDisableSchema.safeParse(req.body);
+    if (!parse.success) return sendError(res, 400, 'validation_error', parse.error.flatten().fieldErrors);
+
+    await twoFactorService.disableTwoFactor(authId, parse.data);
+    return sendSuccess(res, null, 'two_factor_disabled');
+}));
+
+// confirm the email address with the emailed token
+router.post('/verify-email', rateLimit({name: 'verify_email:ip', limit: 20, windowSeconds: 60 * 60, key: clientIp}), asyncHandler(async (req: Request, res: Response) => {
+    const parse = VerifyEmailSchema.safeParse(req.body);
+    if (!parse.success) return sendError(res, 400, 'validation_error', parse.error.flatten().fieldErrors);
+
+    await accountService.verifyEmail(parse.data.token);
+    return sendSuccess(res, null, 'email_verified');
+}));
+
+// send a new verification email to the current user
+router.post('/verify-email/resend', authenticate, rateLimit({name: 'verify_email:resend', limit: 3, windowSeconds: 60 * 60}), asyncHandler(async (req: Request, res: Response) => {
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+
+    await accountService.sendVerificationEmail(authId);
+    return sendSuccess(res, null, 'verification_email_sent');
+}));
+
+// Same answer whether or not the email is registered; the email goes out in the background
+// so response times do not tell either
+router.post('/password/forgot',
+    rateLimit({name: 'password_forgot:ip', limit: 10, windowSeconds: 60 * 60, key: clientIp}),
+    rateLimit({
+        name: 'password_forgot:email',
+        limit: 3,
+        windowSeconds: 60 * 60,
+        key: (req) => typeof req.body?.email === 'string' ? hashSubject(req.body.email) : null,
+    }),
+    asyncHandler(async (req: Request, res: Response) => {
+        const parse = ForgotPasswordSchema.safeParse(req.body);
+        if (!parse.success) return sendError(res, 400, 'validation_error', parse.error.flatten().fieldErrors);
+
+        accountService.requestPasswordReset(parse.data.email).catch((err) => {
+            // eslint-disable-next-line no-console
+            console.warn('[user] password reset email failed:', (err as Error)?.message ?? err);
+        });
+        return sendSuccess(res, null, 'password_reset_requested');
+    }));
+
+// set a new password with the emailed token; signs the account out everywhere
+router.post('/password/reset', rateLimit({name: 'password_reset:ip', limit: 10, windowSeconds: 60 * 60, key: clientIp}), asyncHandler(async (req: Request, res: Response) => {
+    const parse = ResetPasswordSchema.safeParse(req.body);
+    if (!parse.success) return sendError(res, 400, 'validation_error', parse.error.flatten().fieldErrors);
+
+    await accountService.resetPassword(parse.data.token, parse.data.password);
+    res.clearCookie(REFRESH_COOKIE_NAME, REFRESH_COOKIE_OPTIONS);
+    return sendSuccess(res, null, 'password_reset');
+}));
+
+// find users by handle / name; only users that are discoverable show up, emails are not searched
+router.get('/search', authenticate, rateLimit({name: 'user_search', limit: 60, windowSeconds: 60}), asyncHandler(async (req: Request, res: Response) => {
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+    const parse = UserSearchQuerySchema.safeParse(req.query);
+    if (!parse.success) return sendError(res, 400, 'validation_error', parse.error.flatten().fieldErrors);
+
+    const users = await service.searchUsers(authId, parse.data.q, parse.data.limit);
+    return sendSuccess(res, users, 'users_found');
+}));
+
+// get profile of current authenticated user
+router.get('/me', authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+    const user = await service.getProfile(authId);
+    return sendSuccess(res, user, 'user_profile');
+}));
+
+// update name / avatar url of the current user
+router.patch('/me', authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+    const parse = UpdateProfileSchema.safeParse(req.body);
+    if (!parse.success) return sendError(res, 400, 'validation_error', parse.error.flatten().fieldErrors);
+
+    const user = await service.updateProfile(authId, parse.data);
+    return sendSuccess(res, user, 'profile_updated');
+}));
+
+// raw image body (Content-Type image/jpeg, image/png or image/webp), size checked before buffering
+const avatarBody = express.raw({type: 'image/*', limit: Config.AVATAR_MAX_BYTES});
+
+function parseAvatarBody(req: Request, res: Response, next: NextFunction) {
+    avatarBody(req, res, (err?: any) => {
+        if (err?.type === 'entity.too.large') return sendError(res, 413, 'file_too_large', {max_bytes: Config.AVATAR_MAX_BYTES});
+        return next(err);
+    });
+}
+
+// upload a new avatar image; the previous uploaded avatar is deleted
+router.put('/me/avatar', authenticate, rateLimit({name: 'avatar_upload', limit: 10, windowSeconds: 60 * 60}), parseAvatarBody, asyncHandler(async (req: Request, res: Response) => {
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) return sendError(res, 400, 'avatar_required');
+
+    const user = await service.uploadAvatar(authId, req.body, String(req.headers['content-type'] ?? ''));
+    return sendSuccess(res, user, 'avatar_updated');
+}));
+
+router.delete('/me/avatar', authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+    const user = await service.updateProfile(authId, {avatar: null});
+    return sendSuccess(res, user, 'avatar_removed');
+}));
+
+// change password with the current one; signs out every other device
+router.post('/me/password', authenticate, rateLimit({name: 'password_change', limit: 5, windowSeconds: 15 * 60}), asyncHandler(async (req: Request, res: Response) => {
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+    // the session to keep signed in; without it every device would be signed out
+    const sessionId = (req as any).user?.sessionId;
+    if (!sessionId) return sendError(res, 401, 'missing_session');
+    const parse = ChangePasswordSchema.safeParse(req.body);
+    if (!parse.success) return sendError(res, 400, 'validation_error', parse.error.flatten().fieldErrors);
+
+    const result = await service.changePassword(authId, sessionId, parse.data.current_password, parse.data.new_password);
+    return sendSuccess(res, result, 'password_changed');
 }));
 
 router.get('/:id', authenticate, asyncHandler(async (req: Request, res: Response) => {
@@ -68,12 +328,31 @@ router.get('/:id', authenticate, asyncHandler(async (req: Request, res: Response
     return sendSuccess(res, user, 'user_found');
 }));
 
-// get profile of current authenticated user
-router.get('/me', authenticate, asyncHandler(async (req: Request, res: Response) => {
+// list signed-in devices of the current user
+router.get('/me/sessions', authenticate, asyncHandler(async (req: Request, res: Response) => {
     const authId = (req as any).user?.id;
     if (!authId) return sendError(res, 401, 'missing_user');
-    const user = await service.getProfile(authId);
-    return sendSuccess(res, user, 'user_profile');
+    const sessions = await sessionService.listSessions(authId, (req as any).user?.sessionId ?? null);
+    return sendSuccess(res, sessions, 'sessions_list');
+}));
+
+// sign out every other device
+router.post('/me/sessions/revoke-others', authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+    const result = await sessionService.revokeOtherSessions(authId, (req as any).user?.sessionId ?? null);
+    return sendSuccess(res, result, 'sessions_revoked');
+}));
+
+// sign out one device
+router.delete('/me/sessions/:sessionId', authenticate, asyncHandler(async (req: Request, res: Response) => {
+    const authId = (req as any).user?.id;
+    if (!authId) return sendError(res, 401, 'missing_user');
+    const idCheck = z.string().uuid().safeParse(req.params.sessionId);
+    if (!idCheck.success) return sendError(res, 400, 'invalid_session_id');
+
+    await sessionService.revokeSession(authId, idCheck.data);
+    return sendSuccess(res, null, 'session_revoked');
 }));
 
 router.post('/refresh', asyncHandler(async (req: Request, res: Response) => {
@@ -83,13 +362,13 @@ router.post('/refresh', asyncHandler(async (req: Request, res: Response) => {
     if (!refreshToken) return sendError(res, 400, 'missing_refresh_token');
 
     // rotate refresh token if it's nearing expiry
-    const result = await tokenService.rotateRefreshTokenIfNeeded(refreshToken);
+    const result = await tokenService.rotateRefreshTokenIfNeeded(refreshToken, undefined, sessionDevice(req));
     const userId = result.userId;
 
     const user = await userRepo.getUserById(userId);
     if (!user) return sendError(res, 404, 'user_not_found');
 
-    const accessToken = tokenService.signAccessToken({sub: user.id, email: user.email});
+    const accessToken = tokenService.signAccessToken({sub: user.id, email: user.email, sid: result.sessionId});
 
     // if token was rotated, set new cookie
     if (result.rotated) {
@@ -109,7 +388,7 @@ router.post('/logout', asyncHandler(async (req: Request, res: Response) => {
     const refreshToken = cookieToken ?? bodyToken;
     if (!refreshToken) return sendError(res, 400, 'missing_refresh_token');
 
-    const ok = await tokenService.revokeRefreshToken(refreshToken);
+    const ok = await tokenService.logout(refreshToken);
     if (!ok) return sendError(res, 404, 'refresh_token_not_found');
 
     // clear cookie
@@ -1,33 +1,95 @@
 import * as repo from './userRepository';
 import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
-import {RegisterInput} from './userModel';
+import {RegisterInput, UpdateProfileInput, UserRow} from './userModel';
 import {HttpError} from '../../errors/HttpError';
 import * as tokenService from '../auth/tokenService';
 import {withTransaction} from '../../databases/postgres';
+import {SessionDevice} from '../token/refreshTokenRepository';
+import * as accountService from '../auth/accountService';
+import Config from '../../config';
+import * as googleAuthService from '../auth/googleAuthService';
+import * as twoFactorService from '../auth/twoFactorService';
+import {SecondFactor} from '../auth/twoFactorService';
+import {PoolClient} from 'pg';
+import * as avatarService from './avatarService';
+import * as userWs from './userWebSocket';
+import * as chatRepo from '../chat/chatRepository';
+import * as sessionService from '../session/sessionService';
+import * as userTokenRepo from '../token/userTokenRepository';
 
 function sha256(input: string) {
     return crypto.createHash('sha256').update(input).digest('hex');
 }
 
-export async function registerUser(payload: RegisterInput) {
-    const {name, email, password, avatar} = payload;
+// SHA-256 of the raw password first (bcrypt only uses 72 bytes), then bcrypt the result
+export async function hashPassword(password: string) {
+    const saltRounds = 10;
+    return bcrypt.hash(sha256(password), saltRounds);
+}
+
+// Token pair + profile returned by every sign-in method, starting a new device session
+async function issueSession(user: repo.UserRow, device?: SessionDevice, client?: PoolClient) {
+    const {token: refreshToken, expiresAt, sessionId} = await tokenService.createRefreshToken(user.id, client, {device});
+    const accessToken = tokenService.signAccessToken({sub: user.id, email: user.email, sid: sessionId});
+    return {access_token: accessToken, refresh_token: refreshToken, refresh_expires_at: expiresAt, user};
+}
+
+export async function verifyPassword(password: string, passwordHash: string) {
+    return bcrypt.compare(sha256(password), passwordHash);
+}
+
+// Compared against when there is no password to check, so unknown emails take as long as wrong passwords
+const DUMMY_PASSWORD_HASH = '$2b$10$mJeYw6BLjHDL.eSvqx/pR.bUndcnChlelCnuFfu43bdykWZWCYf4W';
+
+// After the first factor: accounts with 2FA get a login challenge instead of tokens
+async function completeSignIn(user: repo.UserRow, device?: SessionDevice) {
+    if (user.totp_enabled_at) {
+        const challenge = await twoFactorService.createLoginChallenge(user.id, device);
+        return {two_factor_required: true as const, ...challenge};
+    }
+    return {two_factor_required: false as const, ...(await issueSession(user, device))};
+}
+
+/**
+ * Second login step for accounts with 2FA
+ */
+export async function completeTwoFactorLogin(challengeToken: string, factor: SecondFactor) {
+    const challenge = await twoFactorService.completeLoginChallenge(challengeToken, factor);
+    const user = await repo.getUserById(challenge.userId);
+    if (!user) throw new HttpError(401, 'INVALID_CHALLENGE', 'Login challenge is invalid or expired');
+    return issueSession(user, challenge.device);
+}
+
+// handles that would read as the service speaking
+const RESERVED_HANDLES = new Set(['admin', 'administrator', 'root', 'support', 'system', 'help', 'security', 'moderator', 'staff', 'official', 'me']);
+
+function assertHandleAllowed(handle?: string) {
+    if (handle && RESERVED_HANDLES.has(handle)) throw new HttpError(400, 'HANDLE_RESERVED', 'Handle is reserved');
+}
+
+export async function registerUser(payload: RegisterInput, device?: SessionDevice) {
+    const {name, email, password, avatar, handle} = payload;
+    assertHandleAllowed(handle);
     // payload already validated by route, but keep a small guard
     if (!name || !email || !password) throw new HttpError(400, 'INVALID_INPUT', 'name,email,password required');
 
-    // First compute SHA-256 of raw password, then bcrypt the result
-    const preHash = sha256(password);
-
-    const saltRounds = 10;
-    const passwordHash = await bcrypt.hash(preHash, saltRounds);
+    const passwordHash = await hashPassword(password);
 
-    return await withTransaction(async (client) => {
-        const user = await repo.createUserWithClient(client, name, email, passwordHash, avatar ?? null);
+    const result = await withTransaction(async (client) => {
+        const user = await repo.createUserWithClient(client, name, email, passwordHash, avatar ?? null, handle ?? null);
         // create refresh token inside transaction using the same client
-        const {token: refreshToken, expiresAt} = await tokenService.createRefreshToken(user.id, client);
-        const accessToken = tokenService.signAccessToken({sub: user.id, email: user.email});
-        return {access_token: accessToken, refresh_token: refreshToken, refresh_expires_at: expiresAt, user};
+        return issueSession(user, device, client);
     });
+
+    // the account exists either way; a failed send can be retried through the resend endpoint
+    try {
+        await accountService.sendVerificationEmail(result.user.id);
+    } catch (err) {
+        // eslint-disable-next-line no-console
+        console.warn('[user] verification email failed:', (err as Error)?.message ?? err);
+    }
+    return result;
 }
 
 export async function getProfile(userId: string) {
@@ -38,24 +100,127 @@ export async function getProfile(userId: string) {
     return user;
 }
 
-export async function loginByEmail(email: string, password: string) {
+// Chat partners see name and avatar, the user's other devices the whole change
+async function broadcastProfile(user: UserRow) {
+    const partners = await chatRepo.listChatPartnerIds(user.id);
+    userWs.notifyProfileUpdated([user.id, ...partners], user);
+}
+
+async function applyProfileUpdate(userId: string, fields: Parameters<typeof repo.updateProfile>[1]) {
+    const result = await repo.updateProfile(userId, fields);
+    if (!result) throw new HttpError(404, 'NOT_FOUND', 'User not found');
+
+    // the replaced upload is no longer referenced by anyone
+    if (result.previousAvatarKey && fields.avatar !== undefined && result.previousAvatarKey !== fields.avatarKey) {
+        await avatarService.deleteAvatar(result.previousAvatarKey);
+    }
+    await broadcastProfile(result.user);
+    return result.user;
+}
+
+/**
+ * Change name, handle, discoverability and / or avatar url (null removes the avatar)
+ */
+export async function updateProfile(userId: string, input: UpdateProfileInput) {
+    assertHandleAllowed(input.handle);
+    const {avatar, ...fields} = input;
+    return applyProfileUpdate(userId, avatar === undefined ? fields : {...fields, avatar, avatarKey: null});
+}
+
+/**
+ * Find other users by handle or name. Only discoverable users are listed.
+ */
+export async function searchUsers(userId: string, term: string, limit: number) {
+    return repo.searchUsers(term.replace(/^@/, ''), userId, limit);
+}
+
+/**
+ * Store an uploaded image as the new avatar, replacing (and deleting) the previous upload
+ */
+export async function uploadAvatar(userId: string, image: Buffer, contentType: string) {
+    const {key, url} = await avatarService.storeAvatar(userId, image, contentType);
+    try {
+        return await applyProfileUpdate(userId, {avatar: url, avatarKey: key});
+    } catch (err) {
+        await avatarService.deleteAvatar(key);
+        throw err;
+    }
+}
+
+/**
+ * Change the password of a signed-in user. Every other device is signed out;
+ * the current session stays valid.
+ */
+export async function changePassword(userId: string, currentSessionId: string, currentPassword: string, newPassword: string) {
+    const hash = await repo.getPasswordHash(userId);
+    // social-only accounts set a first password through the reset flow, which proves the email
+    if (!hash) throw new HttpError(400, 'PASSWORD_NOT_SET', 'Account has no password, use password reset to set one');
+    if (!(await verifyPassword(currentPassword, hash))) {
+        throw new HttpError(401, 'INVALID_CREDENTIALS', 'Invalid credentials');
+    }
+
+    const passwordHash = await hashPassword(newPassword);
+    await withTransaction(async (client) => {
+        await repo.updatePasswordWithClient(client, userId, passwordHash);
+        // a reset link sent before the change must not undo it
+        await userTokenRepo.invalidateUserTokensWithClient(client, userId, 'password_reset');
+    });
+    return sessionService.revokeOtherSessions(userId, currentSessionId);
+}
+
+export async function loginByEmail(email: string, password: string, device?: SessionDevice) {
     const row = await repo.getUserByEmail(email);
-    if (!row) {
+    // social-only accounts have no password to check
+    if (!row || !row.password) {
+        await verifyPassword(password, DUMMY_PASSWORD_HASH);
         throw new HttpError(401, 'INVALID_CREDENTIALS', 'Invalid credentials');
     }
 
     // compute SHA-256 of provided password and compare with bcrypt stored hash
-    const candidatePreHash = sha256(password);
-    const match = await bcrypt.compare(candidatePreHash, row.password);
+    const match = await verifyPassword(password, row.password);
     if (!match) {
         throw new HttpError(401, 'INVALID_CREDENTIALS', 'Invalid credentials');
     }
+    if (Config.REQUIRE_EMAIL_VERIFICATION && !row.email_verified_at) {
+        throw new HttpError(403, 'EMAIL_NOT_VERIFIED', 'Email address not verified');
+    }
 
     // return token pair + user profile (without password)
     const {password: _p, ...user} = row as any;
+    return completeSignIn(user, device);
+}
 
-    const accessToken = tokenService.signAccessToken({sub: user.id, email: user.email});
-    const {token: refreshToken, expiresAt} = await tokenService.createRefreshToken(user.id);
+/**
+ * Sign in with a Google ID token: known Google account, else link the account with the same
+ * (Google verified) email, else create a social-only account. Issues the same pair as login.
+ */
+export async function signInWithGoogle(idToken: string, device?: SessionDevice) {
+    const identity = await googleAuthService.verifyGoogleIdToken(idToken);
 
-    return {access_token: accessToken, refresh_token: refreshToken, refresh_expires_at: expiresAt, user};
+    const linked = await repo.getUserByGoogleId(identity.googleId);
+    if (linked) return completeSignIn(linked, device);
+
+    // linking by an unverified email would let anyone claim an account
+    if (!identity.emailVerified) {
+        throw new HttpError(401, 'GOOGLE_EMAIL_NOT_VERIFIED', 'Google account email is not verified');
+    }
+
+    const existing = await repo.getUserByEmail(identity.email);
+    if (existing) {
+        const user = await repo.linkGoogleAccount(existing.id, identity.googleId);
+        if (!user) throw new HttpError(409, 'GOOGLE_ACCOUNT_CONFLICT', 'Account is linked to another Google account');
+        return completeSignIn(user, device);
+    }
+
+    const created = await withTransaction(async (client) => {
+        const user = await repo.createGoogleUserWithClient(client, {
+            name: identity.name,
+            email: identity.email,
+            googleId: identity.googleId,
+            avatar: identity.picture,
+        });
+        return issueSession(user, device, client);
+    });
+    // a new account has no second factor yet
+    return {two_factor_required: false as const, ...created};
 }
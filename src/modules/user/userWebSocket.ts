@@ -0,0 +1,16 @@
+import * as ws from '../../lib/websocket';
+import {UserRow} from './userModel';
+
+/**
+ * Push a changed profile to chat partners and the user's other devices
+ */
+export function notifyProfileUpdated(userIds: string[], user: UserRow): void {
+    const payload = {
+        userId: user.id,
+        handle: user.handle,
+        name: user.name,
+        avatar: user.avatar ?? null,
+        timestamp: new Date().toISOString(),
+    };
+    userIds.forEach((id) => ws.emitToUser(id, 'user:profile_updated', payload));
+}
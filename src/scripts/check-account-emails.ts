@@ -0,0 +1,138 @@
+/**
+ * Local check for the email verification and password reset flows.
+ *
+ * Starts an in-process SMTP catcher, sends the real messages to it through the SMTP mailer and
+ * uses the links they contain: tokens work once, expired tokens are rejected, and a password reset
+ * revokes every session and access token of the account. Needs PostgreSQL and Redis.
+ *
+ *   PG_HOST=localhost PG_DATABASE=chat REDIS_URL=redis://localhost:6379 npm run auth:email-check
+ */
+import crypto from 'crypto';
+import {SMTPServer} from 'smtp-server';
+import {initPostgres, query, shutdownPostgres} from '../databases/postgres';
+import {initRedis, shutdownRedis} from '../databases/redis';
+import {createSmtpMailer, setMailer} from '../lib/mailer';
+import * as accountService from '../modules/auth/accountService';
+import {loadKeys} from '../modules/auth/keyStore';
+import * as tokenService from '../modules/auth/tokenService';
+import * as refreshRepo from '../modules/token/refreshTokenRepository';
+import * as userService from '../modules/user/userService';
+
+const SMTP_PORT = Number(process.env.EMAIL_CHECK_SMTP_PORT ?? 2526);
+const EMAIL = `email-check-${crypto.randomBytes(4).toString('hex')}@example.com`;
+
+type CaughtMail = { to: string[]; raw: string };
+
+function startCatcher(outbox: CaughtMail[]): Promise<SMTPServer> {
+    const server = new SMTPServer({
+        authOptional: true,
+        disabledCommands: ['AUTH', 'STARTTLS'],
+        onData(stream, session, callback) {
+            const chunks: Buffer[] = [];
+            stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+            stream.on('end', () => {
+                outbox.push({to: session.envelope.rcptTo.map((r) => r.address), raw: Buffer.concat(chunks).toString()});
+                callback();
+            });
+        },
+    });
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(SMTP_PORT, '127.0.0.1', () => resolve(server));
+    });
+}
+
+// Token from the link of the last message to `to`; bodies may be quoted-printable
+function takeToken(outbox: CaughtMail[], to: string, path: string): string {
+    const mail = outbox.filter((m) => m.to.includes(to)).pop();
+    if (!mail) throw new Error(`no message to ${to}`);
+    const body = mail.raw.replace(/=\r?\n/g, '').replace(/=([0-9A-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+    const match = body.match(new RegExp(`${path}\\?token=([A-Za-z0-9_%-]+)`));
+    if (!match) throw new Error(`no ${path} link in message to ${to}`);
+    return decodeURIComponent(match[1]);
+}
+
+async function expireTokens(purpose: string) {
+    await query(
+        `UPDATE user_tokens SET expires_at = now() - interval '1 minute'
+         WHERE purpose = $1 AND user_id = (SELECT id FROM users WHERE email = $2)`,
+        [purpose, EMAIL],
+    );
+}
+
+async function expectError(promise: Promise<unknown>, code: string) {
+    try {
+        await promise;
+    } catch (err) {
+        if ((err as any)?.code === code) return;
+        throw new Error(`expected ${code}, got ${(err as any)?.code ?? (err as Error).message}`);
+    }
+    throw new Error(`expected ${code}, call succeeded`);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function run() {
+    const outbox: CaughtMail[] = [];
+    let catcher: SMTPServer | null = null;
+    try {
+        await initPostgres();
+        await initRedis();
+        loadKeys();
+        catcher = await startCatcher(outbox);
+        setMailer(createSmtpMailer({host: '127.0.0.1', port: SMTP_PORT, from: 'check@example.com'}));
+
+        // 1. verification link: expired links fail, a fresh one works once
+        const registered = await userService.registerUser({name: 'Email Check', email: EMAIL, password: 'check-password-1'});
+        const expired = takeToken(outbox, EMAIL, '/verify-email');
+        await expireTokens('email_verification');
+        await expectError(accountService.verifyEmail(expired), 'INVALID_TOKEN');
+        await accountService.sendVerificationEmail(registered.user.id);
+        const verification = takeToken(outbox, EMAIL, '/verify-email');
+        await accountService.verifyEmail(verification);
+        await expectError(accountService.verifyEmail(verification), 'INVALID_TOKEN');
+        // eslint-disable-next-line no-console
+        console.log('email verification OK');
+
+        // 2. reset link: expired links fail, a fresh one works once
+        const second = await userService.loginByEmail(EMAIL, 'check-password-1');
+        if (second.two_factor_required) throw new Error('unexpected 2FA challenge');
+        await accountService.requestPasswordReset(EMAIL);
+        const expiredReset = takeToken(outbox, EMAIL, '/reset-password');
+        await expireTokens('password_reset');
+        await expectError(accountService.resetPassword(expiredReset, 'check-password-2'), 'INVALID_TOKEN');
+
+        // access tokens issued in the same second as the reset stay valid (iat precision)
+        await sleep(1100);
+        await accountService.requestPasswordReset(EMAIL);
+        const reset = takeToken(outbox, EMAIL, '/reset-password');
+        await accountService.resetPassword(reset, 'check-password-2');
+        await expectError(accountService.resetPassword(reset, 'check-password-3'), 'INVALID_TOKEN');
+        // eslint-disable-next-line no-console
+        console.log('password reset OK');
+
+        // 3. the reset signed the account out everywhere
+        if ((await refreshRepo.listActiveSessions(registered.user.id)).length) throw new Error('sessions still active after reset');
+        for (const session of [registered, second]) {
+            await expectError(tokenService.authenticateAccessToken(session.access_token), 'TOKEN_REVOKED');
+        }
+        await expectError(userService.loginByEmail(EMAIL, 'check-password-1'), 'INVALID_CREDENTIALS');
+        await userService.loginByEmail(EMAIL, 'check-password-2');
+        // eslint-disable-next-line no-console
+        console.log('sessions revoked after reset OK');
+
+        // eslint-disable-next-line no-console
+        console.log('Account email check OK');
+    } catch (err) {
+        // eslint-disable-next-line no-console
+        console.error('Account email check failed:', (err as Error).message);
+        process.exitCode = 2;
+    } finally {
+        await query('DELETE FROM users WHERE email = $1', [EMAIL]).catch(() => undefined);
+        await new Promise((resolve) => (catcher ? catcher.close(() => resolve(null)) : resolve(null)));
+        await shutdownRedis();
+        await shutdownPostgres();
+    }
+}
+
+run();
@@ -0,0 +1,120 @@
+/**
+ * Local check for Google sign-in without reaching Google.
+ *
+ * Signs ID tokens with a local RSA key and verifies them through an OAuth client whose key set is
+ * stubbed to that key, then checks against Postgres: a new account is created, an existing account
+ * is linked by its verified email, an unverified email is rejected and a foreign signature is rejected.
+ *
+ *   PG_HOST=localhost PG_DATABASE=chat npm run auth:google-check
+ */
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import {OAuth2Client} from 'google-auth-library';
+
+// Config reads the client id once on import
+process.env.GOOGLE_CLIENT_ID ??= 'google-signin-check.apps.googleusercontent.com';
+
+const KID = 'google-signin-check';
+const RUN = crypto.randomBytes(4).toString('hex');
+
+type CertsResponse = Awaited<ReturnType<OAuth2Client['getFederatedSignonCertsAsync']>>;
+
+class StubKeySetClient extends OAuth2Client {
+    constructor(clientId: string, private readonly publicKeyPem: string) {
+        super(clientId);
+    }
+
+    async getFederatedSignonCertsAsync(): Promise<CertsResponse> {
+        return {certs: {[KID]: this.publicKeyPem}, format: 'PEM'} as CertsResponse;
+    }
+}
+
+function generateKey() {
+    return crypto.generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+        publicKeyEncoding: {type: 'spki', format: 'pem'},
+        privateKeyEncoding: {type: 'pkcs8', format: 'pem'},
+    });
+}
+
+function idToken(privateKey: string, claims: { sub: string; email: string; email_verified: boolean }) {
+    return jwt.sign({...claims, name: 'Google Check'}, privateKey, {
+        algorithm: 'RS256',
+        keyid: KID,
+        issuer: 'https://accounts.google.com',
+        audience: process.env.GOOGLE_CLIENT_ID,
+        expiresIn: 300,
+    });
+}
+
+async function expectError(promise: Promise<unknown>, code: string) {
+    try {
+        await promise;
+    } catch (err) {
+        if ((err as any)?.code === code) return;
+        throw new Error(`expected ${code}, got ${(err as any)?.code ?? (err as Error).message}`);
+    }
+    throw new Error(`expected ${code}, call succeeded`);
+}
+
+async function run() {
+    const {initPostgres, query, shutdownPostgres} = await import('../databases/postgres');
+    const {loadKeys} = await import('../modules/auth/keyStore');
+    const {setGoogleClient} = await import('../modules/auth/googleAuthService');
+    const userRepo = await import('../modules/user/userRepository');
+    const userService = await import('../modules/user/userService');
+
+    const emails = ['new', 'linked', 'unverified'].map((name) => `google-check-${name}-${RUN}@example.com`);
+    const key = generateKey();
+    try {
+        await initPostgres();
+        loadKeys();
+        setGoogleClient(new StubKeySetClient(process.env.GOOGLE_CLIENT_ID as string, key.publicKey));
+
+        // 1. unknown Google account with an unused email gets a new social-only account
+        const created = await userService.signInWithGoogle(idToken(key.privateKey, {sub: `new-${RUN}`, email: emails[0], email_verified: true}));
+        if (created.two_factor_required || created.user.email !== emails[0]) throw new Error('new account was not signed in');
+        if ((await userRepo.getUserByGoogleId(`new-${RUN}`))?.id !== created.user.id) throw new Error('new account is not linked');
+        // eslint-disable-next-line no-console
+        console.log('new account OK');
+
+        // 2. a verified Google email links the existing password account instead of creating one
+        const existing = await userRepo.createUser('Linked Check', emails[1], await userService.hashPassword('check-password-1'));
+        const linked = await userService.signInWithGoogle(idToken(key.privateKey, {sub: `linked-${RUN}`, email: emails[1], email_verified: true}));
+        if (linked.two_factor_required || linked.user.id !== existing.id) throw new Error('existing account was not signed in');
+        if ((await userRepo.getUserByGoogleId(`linked-${RUN}`))?.id !== existing.id) throw new Error('existing account is not linked');
+        // eslint-disable-next-line no-console
+        console.log('link by verified email OK');
+
+        // 3. an unverified Google email must not take over the account
+        const victim = await userRepo.createUser('Unverified Check', emails[2], await userService.hashPassword('check-password-1'));
+        await expectError(
+            userService.signInWithGoogle(idToken(key.privateKey, {sub: `unverified-${RUN}`, email: emails[2], email_verified: false})),
+            'GOOGLE_EMAIL_NOT_VERIFIED',
+        );
+        if (await userRepo.getUserByGoogleId(`unverified-${RUN}`)) throw new Error(`account ${victim.id} was linked`);
+        // eslint-disable-next-line no-console
+        console.log('unverified email rejected OK');
+
+        // 4. a token signed with a key outside the key set
+        const foreign = generateKey();
+        await expectError(
+            userService.signInWithGoogle(idToken(foreign.privateKey, {sub: `new-${RUN}`, email: emails[0], email_verified: true})),
+            'INVALID_GOOGLE_TOKEN',
+        );
+        // eslint-disable-next-line no-console
+        console.log('foreign signature rejected OK');
+
+        // eslint-disable-next-line no-console
+        console.log('Google sign-in check OK');
+    } catch (err) {
+        // eslint-disable-next-line no-console
+        console.error('Google sign-in check failed:', (err as Error).message);
+        process.exitCode = 2;
+    } finally {
+        await query('DELETE FROM users WHERE email = ANY($1)', [emails]).catch(() => undefined);
+        await shutdownPostgres();
+    }
+}
+
+run();
@@ -0,0 +1,148 @@
+/**
+ * Local multi-process check for the Socket.IO Redis adapter.
+ *
+ * Forks two API-less websocket nodes on different ports that share Redis, connects one client
+ * to each node and verifies cross-node room emits, room membership queries and remote disconnects.
+ *
+ *   REDIS_URL=redis://localhost:6379 npm run ws:cluster-check
+ */
+import {fork, ChildProcess} from 'child_process';
+import {createServer} from 'http';
+import {io as connectClient, Socket as ClientSocket} from 'socket.io-client';
+import {createAdapter} from '@socket.io/redis-adapter';
+import {createDuplicateClient, initRedis, shutdownRedis} from '../databases/redis';
+import * as ws from '../lib/websocket';
+
+const ROOM = 'cluster-check';
+const BASE_PORT = Number(process.env.WS_CLUSTER_CHECK_PORT ?? 4101);
+
+type Command = { id: number; type: 'emit' | 'sockets' | 'disconnect'; socketId?: string };
+
+async function runWorker(port: number) {
+    await initRedis();
+    const pubClient = await createDuplicateClient();
+    const subClient = await createDuplicateClient();
+
+    const httpServer = createServer();
+    ws.useAuth((socket, next) => {
+        socket.data.userId = socket.handshake.auth.userId;
+        next();
+    });
+    ws.initialize(httpServer, {adapter: createAdapter(pubClient, subClient)});
+    ws.on('check:join', async (socket) => {
+        await ws.joinRoom(socket.id, ROOM);
+        socket.emit('check:joined');
+    });
+
+    process.on('message', async (cmd: Command) => {
+        try {
+            if (cmd.type === 'emit') ws.emitToRoom(ROOM, 'check:ping', {from: port});
+            if (cmd.type === 'sockets') return process.send?.({id: cmd.id, result: await ws.getSocketsInRoom(ROOM)});
+            if (cmd.type === 'disconnect') return process.send?.({id: cmd.id, result: await ws.disconnectSocket(cmd.socketId as string, true)});
+            process.send?.({id: cmd.id, result: true});
+        } catch (err) {
+            process.send?.({id: cmd.id, error: (err as Error).message});
+        }
+    });
+
+    process.on('SIGTERM', async () => {
+        await ws.close();
+        await shutdownRedis();
+        process.exit(0);
+    });
+
+    httpServer.listen(port, () => process.send?.({ready: port}));
+}
+
+function waitFor<T>(emitter: ClientSocket, event: string, timeoutMs = 3000): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`timeout waiting for ${event}`)), timeoutMs);
+        emitter.once(event, (data: T) => {
+            clearTimeout(timer);
+            resolve(data);
+        });
+    });
+}
+
+let commandId = 0;
+
+function send<T>(worker: ChildProcess, cmd: Omit<Command, 'id'>): Promise<T> {
+    const id = ++commandId;
+    return new Promise((resolve, reject) => {
+        const onMessage = (msg: any) => {
+            if (msg?.id !== id) return;
+            worker.off('message', onMessage);
+            if (msg.error) reject(new Error(msg.error));
+            else resolve(msg.result as T);
+        };
+        worker.on('message', onMessage);
+        worker.send({...cmd, id});
+    });
+}
+
+function startWorker(port: number): Promise<ChildProcess> {
+    const child = fork(__filename, ['worker', String(port)], {execArgv: ['-r', 'ts-node/register']});
+    return new Promise((resolve, reject) => {
+        child.once('error', reject);
+        child.on('message', (msg: any) => {
+            if (msg?.ready === port) resolve(child);
+        });
+    });
+}
+
+async function run() {
+    const workers: ChildProcess[] = [];
+    const clients: ClientSocket[] = [];
+    try {
+        workers.push(await startWorker(BASE_PORT), await startWorker(BASE_PORT + 1));
+
+        for (const [i, port] of [BASE_PORT, BASE_PORT + 1].entries()) {
+            const client = connectClient(`http://localhost:${port}`, {auth: {userId: `check-user-${i}`}, transports: ['websocket']});
+            await waitFor(client, 'connect');
+            client.emit('check:join');
+            await waitFor(client, 'check:joined');
+            clients.push(client);
+        }
+
+        // 1. emit from node A reaches clients on both nodes
+        const received = Promise.all(clients.map((c) => waitFor(c, 'check:ping')));
+        await send(workers[0], {type: 'emit'});
+        await received;
+        // eslint-disable-next-line no-console
+        console.log('cross-node emit OK');
+
+        // 2. room membership seen from node A includes the socket on node B
+        const ids = await send<string[]>(workers[0], {type: 'sockets'});
+        if (!clients.every((c) => c.id && ids.includes(c.id))) throw new Error(`room query returned ${JSON.stringify(ids)}`);
+        // eslint-disable-next-line no-console
+        console.log('cross-node room query OK');
+
+        // 3. node A disconnects the socket held by node B
+        const disconnected = waitFor(clients[1], 'disconnect');
+        const found = await send<boolean>(workers[0], {type: 'disconnect', socketId: clients[1].id});
+        if (!found) throw new Error('remote socket not found');
+        await disconnected;
+        // eslint-disable-next-line no-console
+        console.log('remote disconnect OK');
+
+        // eslint-disable-next-line no-console
+        console.log('WebSocket cluster check OK');
+    } catch (err) {
+        // eslint-disable-next-line no-console
+        console.error('WebSocket cluster check failed:', (err as Error).message);
+        process.exitCode = 2;
+    } finally {
+        clients.forEach((c) => c.close());
+        workers.forEach((w) => w.kill('SIGTERM'));
+    }
+}
+
+if (process.argv[2] === 'worker') {
+    runWorker(Number(process.argv[3])).catch((err) => {
+        // eslint-disable-next-line no-console
+        console.error('[ws-cluster-check] worker failed:', (err as Error).message);
+        process.exit(1);
+    });
+} else {
+    run();
+}
@@ -0,0 +1,31 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// Usage: npm run jwt:keygen -- <dir> [kid]
+// Writes <dir>/<kid>.pem; point JWT_ACTIVE_KID at it once every instance has the file.
+function run() {
+    const dir = process.argv[2] ?? process.env.JWT_KEYS_DIR;
+    if (!dir) {
+        // eslint-disable-next-line no-console
+        console.error('Usage: npm run jwt:keygen -- <dir> [kid]');
+        process.exitCode = 2;
+        return;
+    }
+    const kid = process.argv[3] ?? new Date().toISOString().slice(0, 10);
+    const file = path.join(dir, `${kid}.pem`);
+    if (fs.existsSync(file)) {
+        // eslint-disable-next-line no-console
+        console.error(`Key ${file} already exists`);
+        process.exitCode = 2;
+        return;
+    }
+
+    const {privateKey} = crypto.generateKeyPairSync('rsa', {modulusLength: 2048});
+    fs.mkdirSync(dir, {recursive: true});
+    fs.writeFileSync(file, privateKey.export({type: 'pkcs8', format: 'pem'}), {mode: 0o600});
+    // eslint-disable-next-line no-console
+    console.log(`Generated RS256 key ${kid} in ${file}`);
+}
+
+run();
@@ -0,0 +1,22 @@
+import {HttpError} from '../errors/HttpError';
+
+// Keyset cursor over (created_at, id); created_at keeps microsecond precision as an ISO string
+export type KeysetCursor = {
+    created_at: string;
+    id: string;
+};
+
+export function encodeCursor(cursor: KeysetCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(raw: string): KeysetCursor {
+    try {
+        const parsed = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+        if (typeof parsed?.created_at !== 'string' || Number.isNaN(Date.parse(parsed.created_at))) throw new Error('bad_cursor');
+        if (typeof parsed?.id !== 'string' || !/^[0-9a-f-]{36}$/i.test(parsed.id)) throw new Error('bad_cursor');
+        return {created_at: parsed.created_at, id: parsed.id};
+    } catch (_) {
+        throw new HttpError(400, 'INVALID_CURSOR', 'Invalid pagination cursor');
+    }
+}
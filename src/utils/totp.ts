@@ -0,0 +1,80 @@
+import crypto from 'crypto';
+
+// RFC 6238 TOTP (HMAC-SHA1, 6 digits, 30s steps) as used by authenticator apps
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    return output;
+}
+
+function base32Decode(input: string): Buffer {
+    const clean = input.replace(/=+$/, '').replace(/\s/g, '').toUpperCase();
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+    for (const char of clean) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) throw new Error('invalid_base32');
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+}
+
+function hotp(secret: Buffer, counter: number): string {
+    const message = Buffer.alloc(8);
+    message.writeBigUInt64BE(BigInt(counter));
+    const digest = crypto.createHmac('sha1', secret).update(message).digest();
+    const offset = digest[digest.length - 1] & 0xf;
+    const code = (digest.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+    return String(code).padStart(DIGITS, '0');
+}
+
+/**
+ * New random secret, base32 encoded (160 bits)
+ */
+export function generateSecret(): string {
+    return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * otpauth:// URI authenticator apps import (usually rendered as a QR code by the client)
+ */
+export function buildOtpAuthUri(secret: string, account: string, issuer: string): string {
+    const label = encodeURIComponent(`${issuer}:${account}`);
+    const params = new URLSearchParams({secret, issuer, algorithm: 'SHA1', digits: String(DIGITS), period: String(STEP_SECONDS)});
+    return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Check a code, tolerating `window` steps of clock drift either way.
+ * Returns the matched time step (to reject replays of the same code) or null.
+ */
+export function verifyTotp(secret: string, code: string, window = 1, now = Date.now()): number | null {
+    if (!/^\d{6}$/.test(code)) return null;
+    const key = base32Decode(secret);
+    const current = Math.floor(now / 1000 / STEP_SECONDS);
+    for (let step = current - window; step <= current + window; step++) {
+        const expected = hotp(key, step);
+        if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) return step;
+    }
+    return null;
+}